@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { toCrewStatus } from "@/server/crew";
+import { handleCrewCallback } from "@/server/idea-jobs";
+
+export const dynamic = "force-dynamic";
+
+// Crews are handed the webhook URL with the secret in its query, as not all
+// of them can send headers
+function isAuthorized(request: Request): boolean {
+  const secret = process.env.CREW_WEBHOOK_SECRET;
+
+  if (!secret) {
+    console.error("CREW_WEBHOOK_SECRET is not set. Refusing crew callbacks.");
+    return false;
+  }
+
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(
+    new URL(request.url).searchParams.get("token") ?? ""
+  );
+
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+// Receives a crew's result. Repeated deliveries of the same result are
+// acknowledged without storing it again.
+export async function POST(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const kickoffId = payload.kickoff_id ?? payload.kickoffId;
+  if (typeof kickoffId !== "string") {
+    return NextResponse.json({ error: "kickoff_id is missing" }, { status: 400 });
+  }
+
+  const outcome = await handleCrewCallback(kickoffId, toCrewStatus(payload));
+
+  if (outcome === "unknown_job") {
+    return NextResponse.json({ error: "Unknown kickoff_id" }, { status: 404 });
+  }
+
+  return NextResponse.json({ outcome });
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { runDueSchedules } from "@/server/scheduler";
+import { runPendingIdeaJobs } from "@/server/idea-jobs";
+
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+// Leaves time to release the last user's lease before maxDuration
+const RUN_DURATION_MS = 240_000;
+
+function isAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    console.error("CRON_SECRET is not set. Refusing to run scheduled jobs.");
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get("authorization") ?? "");
+
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+// Runs scrape, stats refresh and idea generation for every user whose
+// schedule is due, then local idea jobs whose worker never ran. Safe to call
+// concurrently: each user and job is leased to one call.
+export async function GET(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const deadline = Date.now() + RUN_DURATION_MS;
+  const reports = await runDueSchedules(deadline);
+  const ideaJobs = await runPendingIdeaJobs(deadline);
+
+  return NextResponse.json({ users: reports, ideaJobs });
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { pollIdeaJob } from "@/server/idea-jobs";
+
+export const dynamic = "force-dynamic";
+
+// Polled by IdeaList while ideas are generated in the background
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const job = await pollIdeaJob(userId, params.id);
+
+  if (!job) {
+    return NextResponse.json({ error: "Idea job not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(job);
+}
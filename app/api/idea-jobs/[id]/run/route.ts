@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { runLocalIdeaJob } from "@/server/idea-jobs";
+
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+// Worker IdeaList starts after kickoff to run a local job. Returns once the
+// result is stored, or at once if another worker already has the job.
+export async function POST(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const job = await runLocalIdeaJob(userId, params.id);
+
+  if (!job) {
+    return NextResponse.json({ error: "Idea job not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(job);
+}
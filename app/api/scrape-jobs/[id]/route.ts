@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getScrapeJob } from "@/server/queries";
+
+// Polled by VideoList while a scrape runs. Server actions from one client are
+// queued behind each other, so progress can't be read through one mid-scrape.
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const job = await getScrapeJob(params.id);
+
+  if (!job) {
+    return NextResponse.json({ error: "Scrape job not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(job);
+}
@@ -0,0 +1,21 @@
+import TopCommenters from "@/components/TopCommenters";
+import { getTopCommentersForChannel } from "@/server/queries";
+
+interface Props {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function ChannelCommentersPage({ params }: Props) {
+  const resolvedParams = await params;
+  const { channelTitle, commenters } = await getTopCommentersForChannel(
+    resolvedParams.id
+  );
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <TopCommenters channelTitle={channelTitle} commenters={commenters} />
+    </main>
+  );
+}
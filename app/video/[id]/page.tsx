@@ -1,5 +1,5 @@
 import VideoDetail from "@/components/VideoDetail";
-import { getVideoWithComments } from "@/server/queries";
+import { getVideoStatsHistory, getVideoWithComments } from "@/server/queries";
 import { notFound } from "next/navigation";
 
 interface Props {
@@ -17,10 +17,11 @@ export default async function VideoPage({ params }: Props) {
   }
 
   const { video, comments } = result;
+  const snapshots = await getVideoStatsHistory(video.id);
 
   return (
     <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-      <VideoDetail video={video} comments={comments} />
+      <VideoDetail video={video} comments={comments} snapshots={snapshots} />
     </main>
   );
 }
@@ -1,14 +1,20 @@
 import VideoList from "@/components/VideoList";
-import { getVideosForUser } from "@/server/queries";
+import {
+  getChannelsForUser,
+  getVideoGrowthForUser,
+  getVideosForUser,
+} from "@/server/queries";
 
 export default async function VideosPage() {
   const videos = await getVideosForUser();
+  const growth = await getVideoGrowthForUser();
+  const channels = await getChannelsForUser();
 
   console.log("videos", videos);
 
   return (
     <main className="p-9">
-      <VideoList initialVideos={videos} />
+      <VideoList initialVideos={videos} growth={growth} channels={channels} />
     </main>
   );
 }
@@ -0,0 +1,73 @@
+import { Fragment } from "react";
+import { cn } from "@/lib/utils";
+import { parseCommentHtml, parseCommentText } from "@/lib/comment-text";
+
+interface Props {
+  commentText: string;
+  commentHtml: string | null;
+  youtubeVideoId: string; // Timestamps link to this video
+}
+
+const MARK_CLASSES = {
+  b: "font-semibold",
+  i: "italic",
+  s: "line-through",
+};
+
+// Renders a comment's rich form as React elements, so nothing in it is ever
+// interpreted as markup
+export default function CommentBody({
+  commentText,
+  commentHtml,
+  youtubeVideoId,
+}: Props) {
+  const segments = commentHtml
+    ? parseCommentHtml(commentHtml)
+    : parseCommentText(commentText);
+
+  return (
+    <p className="text-sm break-words">
+      {segments.map((segment, index) => {
+        switch (segment.type) {
+          case "break":
+            return <br key={index} />;
+          case "link":
+            return (
+              <a
+                key={index}
+                href={segment.href}
+                target="_blank"
+                rel="noopener noreferrer nofollow"
+                className="text-red-500 hover:underline"
+              >
+                {segment.text}
+              </a>
+            );
+          case "timestamp":
+            return (
+              <a
+                key={index}
+                href={`https://www.youtube.com/watch?v=${youtubeVideoId}&t=${segment.seconds}s`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-medium text-red-500 hover:underline"
+              >
+                {segment.text}
+              </a>
+            );
+          case "text":
+            return segment.marks.length > 0 ? (
+              <span
+                key={index}
+                className={cn(segment.marks.map((mark) => MARK_CLASSES[mark]))}
+              >
+                {segment.text}
+              </span>
+            ) : (
+              <Fragment key={index}>{segment.text}</Fragment>
+            );
+        }
+      })}
+    </p>
+  );
+}
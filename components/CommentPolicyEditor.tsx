@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { CommentOrder, YouTubeChannelType } from "@/server/db/schema";
+import { updateCommentPolicyForSource } from "@/server/mutations";
+
+interface Props {
+  source: YouTubeChannelType;
+  onSaved: (source: YouTubeChannelType) => void;
+}
+
+// Which comments a scrape fetches for each of the source's videos
+export default function CommentPolicyEditor({ source, onSaved }: Props) {
+  const [maxComments, setMaxComments] = useState(source.maxComments);
+  const [order, setOrder] = useState<CommentOrder>(source.commentOrder);
+  const [minLikes, setMinLikes] = useState(source.minCommentLikes);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      onSaved(
+        await updateCommentPolicyForSource(source.id, {
+          maxComments,
+          order,
+          minLikes,
+        })
+      );
+    } catch (error) {
+      console.error("Failed to update comment settings:", error);
+      toast({
+        title: "Failed to update comment settings",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-3 text-sm">
+      <label className="flex items-center justify-between">
+        <span className="text-muted-foreground">Max comments per video</span>
+        <Input
+          type="number"
+          min={1}
+          max={1000}
+          value={maxComments}
+          onChange={(e) => setMaxComments(parseInt(e.target.value, 10) || 1)}
+          className="focus-visible:ring-0 h-8 w-24"
+        />
+      </label>
+      <div className="flex items-center justify-between">
+        <span className="text-muted-foreground">Order</span>
+        <div className="flex items-center rounded-lg border bg-white p-1">
+          {(
+            [
+              ["time", "Newest"],
+              ["relevance", "Top"],
+            ] as const
+          ).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setOrder(value)}
+              className={cn(
+                "rounded-md px-3 py-1 transition-all",
+                order === value
+                  ? "bg-red-500 text-white"
+                  : "text-muted-foreground hover:text-red-500"
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <label className="flex items-center justify-between">
+        <span className="text-muted-foreground">Minimum likes</span>
+        <Input
+          type="number"
+          min={0}
+          value={minLikes}
+          onChange={(e) => setMinLikes(parseInt(e.target.value, 10) || 0)}
+          className="focus-visible:ring-0 h-8 w-24"
+        />
+      </label>
+      <Button
+        size="sm"
+        onClick={save}
+        disabled={isSaving}
+        className="bg-red-500 hover:bg-red-600 transition-all rounded-lg font-semibold"
+      >
+        {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+        <p>Save</p>
+      </Button>
+    </div>
+  );
+}
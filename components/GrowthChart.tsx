@@ -0,0 +1,82 @@
+import { format } from "date-fns";
+import { formatCount } from "@/lib/utils";
+import { StatsPoint } from "@/lib/growth";
+
+interface Props {
+  snapshots: StatsPoint[];
+  publishedAt: Date | string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 8;
+
+// Views over time, from publishing (0 views) through every stats snapshot
+export default function GrowthChart({ snapshots, publishedAt }: Props) {
+  const timeline = [
+    { time: new Date(publishedAt).getTime(), views: 0 },
+    ...snapshots.map((snapshot) => ({
+      time: new Date(snapshot.capturedAt).getTime(),
+      views: snapshot.viewCount,
+    })),
+  ].sort((a, b) => a.time - b.time);
+
+  if (timeline.length < 2) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No statistics recorded yet. Refresh stats to start tracking growth.
+      </p>
+    );
+  }
+
+  const start = timeline[0].time;
+  const end = timeline[timeline.length - 1].time;
+  const maxViews = Math.max(...timeline.map((point) => point.views), 1);
+
+  const toX = (time: number) =>
+    PADDING + ((time - start) / (end - start || 1)) * (WIDTH - 2 * PADDING);
+  const toY = (views: number) =>
+    HEIGHT - PADDING - (views / maxViews) * (HEIGHT - 2 * PADDING);
+
+  const line = timeline
+    .map((point) => `${toX(point.time).toFixed(1)},${toY(point.views).toFixed(1)}`)
+    .join(" ");
+  const area = `${toX(start)},${HEIGHT - PADDING} ${line} ${toX(end)},${HEIGHT - PADDING}`;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>Views</span>
+        <span>{formatCount(maxViews)}</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-48 text-red-500"
+        preserveAspectRatio="none"
+      >
+        <polygon points={area} className="fill-red-50" />
+        <polyline
+          points={line}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+        />
+        {timeline.slice(1).map((point) => (
+          <circle
+            key={point.time}
+            cx={toX(point.time)}
+            cy={toY(point.views)}
+            r={3}
+            fill="currentColor"
+          />
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{format(new Date(start), "MMM d, yyyy")}</span>
+        <span>{format(new Date(end), "MMM d, yyyy")}</span>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,19 @@
 "use client";
-import { useState, useEffect } from "react";
-import { Idea } from "@/server/db/schema";
+import { useState, useEffect, useCallback } from "react";
+import { DiscardedIdea, Idea, ResearchStatus } from "@/server/db/schema";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
-  ExternalLink,
   MoveUpRight,
   MessageSquare,
   Sparkles,
   Loader2,
+  TriangleAlert,
+  X,
 } from "lucide-react";
 import Link from "next/link";
 import {
+  getActiveIdeaJob,
   getIdeaDetails,
   kickoffIdeaGeneration,
   getNewIdeas,
@@ -31,6 +33,9 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import IdeaRunsDialog from "@/components/IdeaRunsDialog";
+import ResearchReferences from "@/components/ResearchReferences";
+import type { IdeaJobStatus } from "@/server/idea-jobs";
 import Image from "next/image";
 import YoutubeLogo from "@/public/youtube-logo.png";
 
@@ -38,6 +43,17 @@ interface Props {
   initialIdeas: Idea[];
 }
 
+// The server gives up on a job after 30 minutes; stop polling a bit later in
+// case its answer never arrives either
+const JOB_POLL_TIMEOUT_MS = 35 * 60 * 1000;
+
+const RESEARCH_STATUS_NOTES: Record<ResearchStatus, string> = {
+  pending: "Not checked yet",
+  verified: "Checked on YouTube",
+  replaced: "Links that could not be found were replaced by similar videos",
+  unverified: "Could not be checked on YouTube",
+};
+
 export interface IdeaDetails {
   videoTitle: string;
   commentText: string;
@@ -47,34 +63,94 @@ export default function IdeaList({ initialIdeas }: Props) {
   const [ideas, setIdeas] = useState<Idea[]>(initialIdeas);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isLoadingIdeas, setIsLoadingIdeas] = useState(false); // New state
+  const [discarded, setDiscarded] = useState<DiscardedIdea[]>([]); // From the last run
 
   const [ideaDetails, setIdeaDetails] = useState<Record<string, IdeaDetails>>(
     {}
   );
   const { toast } = useToast();
 
-  const handleGenerate = async () => {
-    setIsGenerating(true);
-    setIsLoadingIdeas(true); // Start loading ideas immediately
-    try {
-      await kickoffIdeaGeneration();
-      toast({
-        title: "Generating ideas...",
-        description:
-          "We are processing your comments to generate new ideas. This may take a few moments.",
-      });
+  const waitForJob = useCallback(
+    async (startedJob: IdeaJobStatus) => {
+      setIsGenerating(true);
+      setIsLoadingIdeas(true);
+      try {
+        if (!startedJob.processed) {
+          // Runs local jobs; returns at once for other crews or if a worker
+          // already has the job. Cron runs it if this request is lost.
+          fetch(`/api/idea-jobs/${startedJob.id}/run`, { method: "POST" }).catch(
+            (error) => console.error("Error starting idea job worker:", error)
+          );
+        }
 
-      // Immediately fetch new ideas after kickoff
-      const newIdeas = await getNewIdeas();
-      setIdeas(newIdeas);
-      setIsLoadingIdeas(false); // Stop loading ideas
-      setIsGenerating(false); // Stop generating
+        // The job is marked processed just before its run's result is stored
+        let job = startedJob;
+        const pollDeadline = Date.now() + JOB_POLL_TIMEOUT_MS;
+        while (!job.processed || job.run?.status === "RUNNING") {
+          if (Date.now() > pollDeadline) {
+            throw new Error(
+              "The ideas are taking too long. Check the Runs history later."
+            );
+          }
+          await new Promise((resolve) => setTimeout(resolve, 2000));
+          const response = await fetch(`/api/idea-jobs/${job.id}`);
+          if (!response.ok) {
+            throw new Error(`Checking on the ideas failed (${response.status})`);
+          }
+          job = await response.json();
+        }
 
-      toast({
-        title: "Idea generation completed!",
-        description: "Your new ideas are ready.",
-      });
+        setIdeas(await getNewIdeas());
+        setDiscarded(job.run?.report?.discarded ?? []);
 
+        if (job.run?.status === "SUCCESS") {
+          const skipped =
+            (job.run.report?.errors.length ?? 0) +
+            (job.run.report?.discarded.length ?? 0);
+          toast({
+            title: "Idea generation completed!",
+            description:
+              skipped > 0
+                ? `${job.run.ideaCount} new ideas are ready; ${skipped} invalid ones were skipped.`
+                : "Your new ideas are ready.",
+          });
+        } else {
+          toast({
+            title: "Idea generation failed",
+            description:
+              job.run?.error ?? "Retry the run from the Runs history.",
+            variant: "destructive",
+          });
+        }
+      } catch (error) {
+        console.error("Error while generating ideas:", error);
+        toast({
+          title: "Error",
+          description:
+            error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive",
+        });
+      } finally {
+        setIsGenerating(false);
+        setIsLoadingIdeas(false);
+      }
+    },
+    [toast]
+  );
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const job = await kickoffIdeaGeneration();
+      // Crews that run in the request return with the ideas already stored
+      if (!job.processed) {
+        toast({
+          title: "Generating ideas...",
+          description:
+            "We are processing your comments to generate new ideas. This may take a few moments.",
+        });
+      }
+      await waitForJob(job);
     } catch (error) {
       console.error("Error initiating idea generation:", error);
       toast({
@@ -83,10 +159,21 @@ export default function IdeaList({ initialIdeas }: Props) {
         variant: "destructive",
       });
       setIsGenerating(false);
-      setIsLoadingIdeas(false); // Stop loading if there's an error
     }
   };
 
+  useEffect(() => {
+    getActiveIdeaJob()
+      .then((activeJob) => activeJob && waitForJob(activeJob))
+      .catch((error) => console.error("Error resuming idea job:", error));
+  }, [waitForJob]);
+
+  const handleRetried = (job: IdeaJobStatus) => {
+    waitForJob(job).catch((error) =>
+      console.error("Error waiting for retried run:", error)
+    );
+  };
+
   // Fetch idea details when ideas change
   useEffect(() => {
     const fetchDetailsForIdeas = async () => {
@@ -139,20 +226,23 @@ export default function IdeaList({ initialIdeas }: Props) {
           Get started by generating ideas from your video comments. Each idea is
           crafted based on your content.
         </p>
-        <Button
-          onClick={handleGenerate}
-          disabled={isGenerating}
-          className="bg-red-500 hover:bg-red-600 transition-all rounded-lg text-md font-semibold px-6 py-5"
-        >
-          {isGenerating ? (
-            <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              Generating...
-            </>
-          ) : (
-            <>Generate Ideas</>
-          )}
-        </Button>
+        <div className="flex items-center gap-3">
+          <Button
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="bg-red-500 hover:bg-red-600 transition-all rounded-lg text-md font-semibold px-6 py-5"
+          >
+            {isGenerating ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Generating...
+              </>
+            ) : (
+              <>Generate Ideas</>
+            )}
+          </Button>
+          <IdeaRunsDialog onRetried={handleRetried} />
+        </div>
       </div>
     );
   }
@@ -161,21 +251,53 @@ export default function IdeaList({ initialIdeas }: Props) {
     <>
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-bold">Ideas</h1>
-        <Button
-          onClick={handleGenerate}
-          disabled={isGenerating}
-          className="bg-red-500 hover:bg-red-600 transition-all rounded-lg text-md font-semibold px-6 py-3"
-        >
-          {isGenerating ? (
-            <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              Generating...
-            </>
-          ) : (
-            "Generate"
-          )}
-        </Button>
+        <div className="flex items-center gap-3">
+          <IdeaRunsDialog onRetried={handleRetried} />
+          <Button
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="bg-red-500 hover:bg-red-600 transition-all rounded-lg text-md font-semibold px-6 py-3"
+          >
+            {isGenerating ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Generating...
+              </>
+            ) : (
+              "Generate"
+            )}
+          </Button>
+        </div>
       </div>
+      {discarded.length > 0 && (
+        <div className="mb-6 rounded-2xl border border-red-200 bg-red-50 p-5 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="flex items-center gap-2 font-semibold text-red-500">
+              <TriangleAlert className="h-4 w-4" />
+              {discarded.length} {discarded.length === 1 ? "idea" : "ideas"}{" "}
+              discarded from the last run
+            </h3>
+            <button
+              onClick={() => setDiscarded([])}
+              className="text-muted-foreground hover:text-red-500 transition-all"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <ul className="space-y-2 text-sm">
+            {discarded.map((idea, index) => (
+              <li key={index}>
+                <span className="font-medium">{idea.videoTitle}</span>
+                <span className="text-muted-foreground">
+                  {" "}
+                  · {idea.description}
+                </span>
+                <p className="text-xs text-red-500">{idea.reason}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
       <div className="grid grid-cols-3 gap-6">
         {ideas.map((idea) => (
           <div key={idea.id} className="group">
@@ -206,9 +328,19 @@ export default function IdeaList({ initialIdeas }: Props) {
                       </TooltipProvider>
                     </Link>
                   </div>
-                  <Badge variant="secondary" className="text-sm text-red-500">
-                    Score: {idea.score}
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className="text-sm text-red-500">
+                      Score: {idea.score}
+                    </Badge>
+                    {idea.researchStatus === "unverified" && (
+                      <Badge
+                        variant="outline"
+                        className="text-sm text-muted-foreground"
+                      >
+                        Research unverified
+                      </Badge>
+                    )}
+                  </div>
                 </div>
               </DialogTrigger>
 
@@ -237,44 +369,16 @@ export default function IdeaList({ initialIdeas }: Props) {
                       </p>
                     </ScrollArea>
                   </div>
-                  {/* Research Links */}
+                  {/* Research */}
                   <div className="space-y-2">
-                    <h3 className="font-semibold text-red-500">
-                      Research Links
-                    </h3>
-                    <div className="grid grid-cols-4 gap-3">
-                      {idea.research.map((url) => {
-                        try {
-                          const parsedUrl = new URL(url);
-                          return (
-                            <Link
-                              key={url}
-                              href={url}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="w-full space-x-2 flex items-center line-clamp-1 border bg-gray-50 hover:bg-gray-100 transition-all duration-300 rounded-lg px-3 py-2"
-                            >
-                              <ExternalLink className="h-4 w-4 flex-shrink-0" />
-                              <p className="flex-1 text-sm truncate">
-                                {parsedUrl.hostname.replace("www.", "")}
-                              </p>
-                            </Link>
-                          );
-                        } catch (error) {
-                          console.error("Invalid URL:", url, error);
-                          return (
-                            <div
-                              key={url}
-                              className="w-full space-x-2 flex items-center line-clamp-1 border bg-gray-50 text-gray-400 rounded-lg px-3 py-2"
-                            >
-                              <ExternalLink className="h-4 w-4 flex-shrink-0" />
-                              <p className="flex-1 text-sm truncate">
-                                Invalid URL
-                              </p>
-                            </div>
-                          );
-                        }
-                      })}
+                    <div className="flex items-baseline justify-between gap-2">
+                      <h3 className="font-semibold text-red-500">Research</h3>
+                      <p className="text-xs text-muted-foreground">
+                        {RESEARCH_STATUS_NOTES[idea.researchStatus]}
+                      </p>
+                    </div>
+                    <div className="max-h-[260px] overflow-y-auto">
+                      <ResearchReferences references={idea.research} />
                     </div>
                   </div>
                   {/* Video Title */}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { IdeaRunStatus, IdeaRunSummary } from "@/server/db/schema";
+import { getIdeaRuns, retryFailedRun } from "@/server/ideas-actions";
+import type { IdeaJobStatus } from "@/server/idea-jobs";
+
+interface Props {
+  onRetried: (job: IdeaJobStatus) => void;
+}
+
+const STATUS_CLASSES: Record<IdeaRunStatus, string> = {
+  RUNNING: "text-muted-foreground",
+  SUCCESS: "text-green-600",
+  FAILED: "text-red-500",
+};
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+// History of idea generation runs, where failed ones can be run again
+export default function IdeaRunsDialog({ onRetried }: Props) {
+  const [runs, setRuns] = useState<IdeaRunSummary[] | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchRuns = async () => {
+    try {
+      setRuns(await getIdeaRuns());
+    } catch (error) {
+      console.error("Failed to fetch runs:", error);
+    }
+  };
+
+  const retry = async (runId: string) => {
+    setRetryingId(runId);
+    try {
+      onRetried(await retryFailedRun(runId));
+      toast({
+        title: "Run retried",
+        description: "The new ideas will appear once they are ready.",
+      });
+    } catch (error) {
+      console.error("Failed to retry run:", error);
+      toast({
+        title: "Retry failed",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setRetryingId(null);
+      await fetchRuns();
+    }
+  };
+
+  // A failed run is retried once; after that, retry the newer run
+  const retriedIds = new Set(runs?.map((run) => run.retryOf));
+
+  return (
+    <Dialog onOpenChange={(open) => open && fetchRuns()}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="rounded-lg text-md font-semibold px-6 py-3"
+        >
+          <History className="h-4 w-4" />
+          Runs
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-[700px] rounded-2xl p-8">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold">Runs</DialogTitle>
+        </DialogHeader>
+        {runs === null ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-red-500" />
+          </div>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No runs yet.</p>
+        ) : (
+          <ScrollArea className="h-[400px] pr-4">
+            <div className="space-y-3">
+              {runs.map((run) => {
+                const skipped = run.report
+                  ? run.report.errors.length + run.report.discarded.length
+                  : 0;
+                return (
+                  <div
+                    key={run.id}
+                    className="rounded-lg border bg-white p-4 space-y-2 text-sm"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Badge
+                          variant="secondary"
+                          className={STATUS_CLASSES[run.status]}
+                        >
+                          {run.status.toLowerCase()}
+                        </Badge>
+                        <span className="text-muted-foreground">
+                          {formatDistanceToNow(new Date(run.createdAt))} ago
+                        </span>
+                      </div>
+                      {run.status === "FAILED" && !retriedIds.has(run.id) && (
+                        <Button
+                          size="sm"
+                          onClick={() => retry(run.id)}
+                          disabled={retryingId !== null}
+                          className="bg-red-500 hover:bg-red-600 transition-all rounded-lg font-semibold"
+                        >
+                          {retryingId === run.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <RotateCcw className="h-4 w-4" />
+                          )}
+                          <p>Retry</p>
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-muted-foreground">
+                      {run.model
+                        ? `${run.provider}/${run.model}`
+                        : "No model answered"}{" "}
+                      · prompt v{run.promptVersion} · {run.commentIds.length}{" "}
+                      comments · {run.ideaCount} ideas
+                      {skipped > 0 && `, ${skipped} skipped`}
+                      {run.durationMs !== null &&
+                        ` · ${formatDuration(run.durationMs)}`}
+                      {run.retryOf && " · retry"}
+                    </p>
+                    {run.error && (
+                      <p className="text-xs break-words text-red-500">
+                        {run.error}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
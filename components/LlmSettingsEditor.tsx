@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { LlmChoice, LlmProvider, LlmSettings } from "@/server/db/schema";
+import { updateLlmSettingsForUser } from "@/server/mutations";
+
+interface Props {
+  settings: LlmSettings;
+  onSaved: (settings: LlmSettings) => void;
+}
+
+const PROVIDERS: { value: LlmProvider; label: string }[] = [
+  { value: "gemini", label: "Gemini" },
+  { value: "openai", label: "OpenAI-compatible" },
+  { value: "mock", label: "Mock" },
+];
+
+function ChoiceEditor({
+  choice,
+  onChange,
+}: {
+  choice: LlmChoice;
+  onChange: (choice: LlmChoice) => void;
+}) {
+  return (
+    <div className="flex flex-1 flex-wrap items-center gap-2">
+      <div className="flex items-center rounded-lg border bg-white p-1 text-sm w-fit">
+        {PROVIDERS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onChange({ ...choice, provider: value })}
+            className={cn(
+              "rounded-md px-3 py-1 transition-all",
+              choice.provider === value
+                ? "bg-red-500 text-white"
+                : "text-muted-foreground hover:text-red-500"
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {choice.provider !== "mock" && (
+        <Input
+          value={choice.model ?? ""}
+          onChange={(e) => onChange({ ...choice, model: e.target.value })}
+          placeholder="Default model"
+          className="focus-visible:ring-0 h-8 w-40"
+        />
+      )}
+    </div>
+  );
+}
+
+// Which model generates ideas, and which ones to try when it fails
+export default function LlmSettingsEditor({ settings, onSaved }: Props) {
+  const [primary, setPrimary] = useState<LlmChoice>({
+    provider: settings.provider,
+    model: settings.model,
+  });
+  const [fallbacks, setFallbacks] = useState(settings.fallbacks);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      onSaved(await updateLlmSettingsForUser({ ...primary, fallbacks }));
+      toast({ title: "Model settings saved" });
+    } catch (error) {
+      console.error("Failed to update model settings:", error);
+      toast({
+        title: "Failed to update model settings",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <ChoiceEditor choice={primary} onChange={setPrimary} />
+      {fallbacks.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-muted-foreground">If that fails, try in order:</p>
+          {fallbacks.map((fallback, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <ChoiceEditor
+                choice={fallback}
+                onChange={(choice) =>
+                  setFallbacks(
+                    fallbacks.map((other, i) => (i === index ? choice : other))
+                  )
+                }
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() =>
+                  setFallbacks(fallbacks.filter((_, i) => i !== index))
+                }
+                className="text-muted-foreground hover:text-red-500"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            setFallbacks([...fallbacks, { provider: "openai", model: null }])
+          }
+          className="rounded-lg font-semibold"
+        >
+          <Plus className="h-4 w-4" />
+          <p>Add fallback</p>
+        </Button>
+        <Button
+          size="sm"
+          onClick={save}
+          disabled={isSaving}
+          className="bg-red-500 hover:bg-red-600 transition-all rounded-lg font-semibold"
+        >
+          {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+          <p>Save</p>
+        </Button>
+      </div>
+    </div>
+  );
+}
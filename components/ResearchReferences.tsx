@@ -0,0 +1,67 @@
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { ExternalLink, Eye } from "lucide-react";
+import { formatCount } from "@/lib/utils";
+import { ResearchReference } from "@/server/db/schema";
+
+function hostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace("www.", "");
+  } catch {
+    return url;
+  }
+}
+
+// Reference cards for an idea, most viewed first; references without a view
+// count go last
+export default function ResearchReferences({
+  references,
+}: {
+  references: ResearchReference[];
+}) {
+  if (references.length === 0) {
+    return <p className="text-sm text-muted-foreground">No references.</p>;
+  }
+
+  const sorted = [...references].sort(
+    (a, b) => (b.viewCount ?? -1) - (a.viewCount ?? -1)
+  );
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {/* Ideas stored before references were deduplicated can repeat a URL */}
+      {sorted.map((reference, index) => (
+        <Link
+          key={`${reference.url}-${index}`}
+          href={reference.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex flex-col gap-1 border bg-gray-50 hover:bg-gray-100 transition-all duration-300 rounded-lg px-3 py-2"
+        >
+          <div className="flex items-start gap-2">
+            <p className="flex-1 text-sm font-medium line-clamp-2">
+              {reference.title || hostname(reference.url)}
+            </p>
+            <ExternalLink className="h-4 w-4 flex-shrink-0 text-red-500" />
+          </div>
+          <p className="text-xs text-muted-foreground truncate">
+            {reference.channel || hostname(reference.url)}
+          </p>
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            {reference.viewCount !== null ? (
+              <span className="flex items-center gap-1">
+                <Eye className="h-3 w-3" />
+                {formatCount(reference.viewCount)} views
+              </span>
+            ) : (
+              <span />
+            )}
+            <span>
+              {formatDistanceToNow(new Date(reference.fetchedAt))} ago
+            </span>
+          </div>
+        </Link>
+      ))}
+    </div>
+  );
+}
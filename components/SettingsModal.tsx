@@ -1,22 +1,116 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Plus, X } from "lucide-react";
+import {
+  ListVideo,
+  Loader2,
+  Plus,
+  Search,
+  SlidersHorizontal,
+  Tv,
+  Upload,
+  X,
+} from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useToast } from "@/hooks/use-toast";
 
-import { YouTubeChannelType } from "@/server/db/schema";
+import {
+  LlmSettings,
+  ScheduleFrequency,
+  SourceType,
+  YouTubeChannelType,
+} from "@/server/db/schema";
 
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { getChannelsForUser } from "@/server/queries";
-import { addChannelForUser, removeChannelForUser } from "@/server/mutations";
+import CommentPolicyEditor from "@/components/CommentPolicyEditor";
+import LlmSettingsEditor from "@/components/LlmSettingsEditor";
+import {
+  getChannelsForUser,
+  getLlmSettingsForUser,
+  getQuotaStatus,
+  getScheduleForUser,
+} from "@/server/queries";
+import { cn, formatCount } from "@/lib/utils";
+import {
+  addChannelForUser,
+  addPlaylistForUser,
+  addSearchForUser,
+  importCommentsForUser,
+  removeChannelForUser,
+  updateScheduleForUser,
+} from "@/server/mutations";
+import { lookupChannel, lookupPlaylist } from "@/server/youtube-actions";
+import {
+  ChannelCandidate,
+  PlaylistCandidate,
+} from "@/server/channel-resolver";
+
+const SOURCE_TYPES: { value: SourceType; label: string; placeholder: string }[] =
+  [
+    {
+      value: "channel",
+      label: "Channel",
+      placeholder: "@handle, channel URL or name",
+    },
+    { value: "playlist", label: "Playlist", placeholder: "Playlist URL or ID" },
+    { value: "search", label: "Search", placeholder: "Keywords to search for" },
+  ];
+
+function describeSource(source: YouTubeChannelType): string {
+  switch (source.sourceType) {
+    case "playlist":
+      return "Playlist";
+    case "search":
+      return `Search • last ${source.searchWindowDays ?? 30} days`;
+    default:
+      return (
+        [
+          source.handle,
+          source.subscriberCount !== null
+            ? `${formatCount(source.subscriberCount)} subscribers`
+            : null,
+          source.totalViewCount !== null
+            ? `${formatCount(source.totalViewCount)} views`
+            : null,
+          source.videoCount !== null
+            ? `${formatCount(source.videoCount)} videos`
+            : null,
+          source.country,
+        ]
+          .filter(Boolean)
+          .join(" • ") || "Channel"
+      );
+  }
+}
+
+function SourceIcon({ sourceType }: { sourceType: SourceType }) {
+  const Icon =
+    sourceType === "playlist" ? ListVideo : sourceType === "search" ? Search : Tv;
+  return <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />;
+}
 
 export function SettingsModal() {
   const [isOpen, setIsOpen] = useState(false);
   const [channels, setChannels] = useState<YouTubeChannelType[]>([]);
   const [newChannel, setNewChannel] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [quota, setQuota] = useState<{ remaining: number; limit: number }>();
+  const [candidates, setCandidates] = useState<ChannelCandidate[] | null>(
+    null
+  );
+  const [playlist, setPlaylist] = useState<PlaylistCandidate | null>(null);
+  const [sourceType, setSourceType] = useState<SourceType>("channel");
+  const [searchWindowDays, setSearchWindowDays] = useState(30);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [editingSourceId, setEditingSourceId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [schedule, setSchedule] = useState<ScheduleFrequency>("off");
+  const [llmSettings, setLlmSettings] = useState<LlmSettings | null>(null);
+  const { toast } = useToast();
 
   useEffect(() => {
     if (isOpen) {
@@ -27,8 +121,17 @@ export function SettingsModal() {
   const fetchChannels = async () => {
     setIsLoading(true);
     try {
-      const fetchedChannels = await getChannelsForUser();
+      const [fetchedChannels, quotaStatus, scheduleFrequency, models] =
+        await Promise.all([
+          getChannelsForUser(),
+          getQuotaStatus(),
+          getScheduleForUser(),
+          getLlmSettingsForUser(),
+        ]);
       setChannels(fetchedChannels);
+      setQuota(quotaStatus);
+      setSchedule(scheduleFrequency);
+      setLlmSettings(models);
     } catch (error) {
       console.error("Failed to fetch channels:", error);
     } finally {
@@ -36,21 +139,154 @@ export function SettingsModal() {
     }
   };
 
-  const addChannel = async () => {
+  const findPlaylist = async () => {
+    if (newChannel) {
+      setIsSearching(true);
+      try {
+        setPlaylist(await lookupPlaylist(newChannel));
+      } catch (error) {
+        console.error("Failed to look up playlist:", error);
+        toast({
+          title: "Playlist lookup failed",
+          description:
+            error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive",
+        });
+      } finally {
+        setIsSearching(false);
+      }
+    }
+  };
+
+  const findChannel = async () => {
     if (newChannel) {
-      setIsLoading(true);
+      setIsSearching(true);
       try {
-        const addedChannel = await addChannelForUser(newChannel);
-        setChannels([...channels, addedChannel]);
-        setNewChannel("");
+        const lookup = await lookupChannel(newChannel);
+        const found =
+          lookup.kind === "exact" ? [lookup.channel] : lookup.candidates;
+
+        if (found.length === 0) {
+          toast({
+            title: "No channels found",
+            description: `Nothing on YouTube matches "${newChannel}".`,
+            variant: "destructive",
+          });
+        }
+        setCandidates(found);
       } catch (error) {
-        console.error("Failed to add channel:", error);
+        console.error("Failed to look up channel:", error);
+        toast({
+          title: "Channel lookup failed",
+          description:
+            error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive",
+        });
       } finally {
-        setIsLoading(false);
+        setIsSearching(false);
       }
     }
   };
 
+  const addChannel = async (candidate: ChannelCandidate) => {
+    setIsLoading(true);
+    try {
+      const addedChannel = await addChannelForUser(candidate.channelId);
+      setChannels([...channels, addedChannel]);
+      setNewChannel("");
+      setCandidates(null);
+    } catch (error) {
+      console.error("Failed to add channel:", error);
+      toast({
+        title: "Failed to add channel",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const addSource = async (
+    add: () => Promise<YouTubeChannelType>,
+    failureTitle: string
+  ) => {
+    setIsLoading(true);
+    try {
+      const addedSource = await add();
+      setChannels([...channels, addedSource]);
+      setNewChannel("");
+      setPlaylist(null);
+    } catch (error) {
+      console.error(`${failureTitle}:`, error);
+      toast({
+        title: failureTitle,
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const findSource = () => {
+    if (sourceType === "channel") {
+      findChannel();
+    } else if (sourceType === "playlist") {
+      findPlaylist();
+    } else if (newChannel) {
+      addSource(
+        () => addSearchForUser(newChannel, searchWindowDays),
+        "Failed to add search"
+      );
+    }
+  };
+
+  const importComments = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const result = await importCommentsForUser(formData);
+
+      toast({
+        title: "Comments Imported",
+        description: `${result.imported} new comments from ${file.name}. ${result.duplicates} already stored, ${result.skipped} skipped.`,
+      });
+    } catch (error) {
+      console.error("Failed to import comments:", error);
+      toast({
+        title: "Import Failed",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+      if (importInputRef.current) {
+        importInputRef.current.value = "";
+      }
+    }
+  };
+
+  const changeSchedule = async (scheduleFrequency: ScheduleFrequency) => {
+    const previousSchedule = schedule;
+    setSchedule(scheduleFrequency);
+    try {
+      await updateScheduleForUser(scheduleFrequency);
+    } catch (error) {
+      console.error("Failed to update schedule:", error);
+      setSchedule(previousSchedule);
+      toast({
+        title: "Failed to update schedule",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const removeChannel = async (id: string) => {
     setIsLoading(true);
     try {
@@ -74,28 +310,198 @@ export function SettingsModal() {
         <div className="py-4 space-y-6">
           <div className="space-y-2">
             <h3 className="font-semibold text-red-500 text-lg">
-              Add New Channel
+              Add New Source
             </h3>
+            <div className="flex items-center rounded-lg border bg-white p-1 text-sm w-fit">
+              {SOURCE_TYPES.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => {
+                    setSourceType(value);
+                    setCandidates(null);
+                    setPlaylist(null);
+                  }}
+                  className={cn(
+                    "rounded-md px-3 py-1 transition-all",
+                    sourceType === value
+                      ? "bg-red-500 text-white"
+                      : "text-muted-foreground hover:text-red-500"
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
             <div className="flex space-x-2">
               <Input
-                placeholder="Channel name"
+                placeholder={
+                  SOURCE_TYPES.find((type) => type.value === sourceType)
+                    ?.placeholder
+                }
                 value={newChannel}
-                onChange={(e) => setNewChannel(e.target.value)}
+                onChange={(e) => {
+                  setNewChannel(e.target.value);
+                  setCandidates(null);
+                  setPlaylist(null);
+                }}
+                onKeyDown={(e) => e.key === "Enter" && findSource()}
                 className="focus-visible:ring-0 text-md px-4 py-2 h-10"
               />
               <Button
-                onClick={addChannel}
-                disabled={isLoading}
+                onClick={findSource}
+                disabled={isLoading || isSearching}
                 className="bg-red-500 hover:bg-red-600 transition-all h-10 rounded-lg font-semibold"
               >
-                <Plus className="h-4 w-4" strokeWidth={3} />
-                <p>Add</p>
+                {isSearching ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : sourceType === "search" ? (
+                  <Plus className="h-4 w-4" strokeWidth={3} />
+                ) : (
+                  <Search className="h-4 w-4" strokeWidth={3} />
+                )}
+                <p>{sourceType === "search" ? "Add" : "Find"}</p>
               </Button>
             </div>
+            {sourceType === "search" && (
+              <label className="flex items-center space-x-2 text-sm text-muted-foreground">
+                <span>Videos published in the last</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={searchWindowDays}
+                  onChange={(e) =>
+                    setSearchWindowDays(parseInt(e.target.value, 10) || 1)
+                  }
+                  className="focus-visible:ring-0 h-8 w-20"
+                />
+                <span>days</span>
+              </label>
+            )}
+            {playlist && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  Is this the playlist you meant?
+                </p>
+                <div className="flex items-center justify-between border rounded-lg shadow-sm px-3 py-2 bg-gray-50">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <Avatar className="h-8 w-8 rounded-md">
+                      {playlist.thumbnailUrl && (
+                        <AvatarImage
+                          src={playlist.thumbnailUrl}
+                          alt={playlist.title}
+                        />
+                      )}
+                      <AvatarFallback className="rounded-md">
+                        <ListVideo className="h-4 w-4" />
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {playlist.title}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {[
+                          playlist.channelTitle,
+                          playlist.itemCount !== null
+                            ? `${formatCount(playlist.itemCount)} videos`
+                            : null,
+                        ]
+                          .filter(Boolean)
+                          .join(" • ")}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() =>
+                      addSource(
+                        () => addPlaylistForUser(playlist.playlistId),
+                        "Failed to add playlist"
+                      )
+                    }
+                    disabled={isLoading}
+                    className="bg-red-500 hover:bg-red-600 transition-all rounded-lg font-semibold"
+                  >
+                    <Plus className="h-4 w-4" strokeWidth={3} />
+                    <p>Add</p>
+                  </Button>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPlaylist(null)}
+                  className="text-muted-foreground"
+                >
+                  Cancel
+                </Button>
+              </div>
+            )}
+            {candidates && candidates.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {candidates.length === 1
+                    ? "Is this the channel you meant?"
+                    : "Pick the channel you meant:"}
+                </p>
+                {candidates.map((candidate) => (
+                  <div
+                    key={candidate.channelId}
+                    className="flex items-center justify-between border rounded-lg shadow-sm px-3 py-2 bg-gray-50"
+                  >
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <Avatar className="h-8 w-8">
+                        {candidate.thumbnailUrl && (
+                          <AvatarImage
+                            src={candidate.thumbnailUrl}
+                            alt={candidate.title}
+                          />
+                        )}
+                        <AvatarFallback>
+                          {candidate.title.charAt(0).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          {candidate.title}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {[
+                            candidate.handle,
+                            candidate.subscriberCount !== null
+                              ? `${formatCount(candidate.subscriberCount)} subscribers`
+                              : "Subscribers hidden",
+                          ]
+                            .filter(Boolean)
+                            .join(" • ")}
+                        </p>
+                      </div>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => addChannel(candidate)}
+                      disabled={isLoading}
+                      className="bg-red-500 hover:bg-red-600 transition-all rounded-lg font-semibold"
+                    >
+                      <Plus className="h-4 w-4" strokeWidth={3} />
+                      <p>Add</p>
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setCandidates(null)}
+                  className="text-muted-foreground"
+                >
+                  Cancel
+                </Button>
+              </div>
+            )}
           </div>
           <div className="space-y-2">
             <h3 className="font-semibold text-red-500 text-lg">
-              Saved Channels
+              Saved Sources
             </h3>
             {isLoading ? (
               <p className="h-[150px] flex items-center justify-center">
@@ -106,22 +512,167 @@ export function SettingsModal() {
                 {channels.map((channel) => (
                   <div
                     key={channel.id}
-                    className="flex items-center justify-between border rounded-lg shadow-sm px-4 py-2 bg-gray-50 mb-2"
+                    className="border rounded-lg shadow-sm px-4 py-2 bg-gray-50 mb-2 space-y-2"
                   >
-                    <span>{channel.name}</span>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeChannel(channel.id)}
-                      disabled={isLoading}
-                    >
-                      <X className="h-4 w-4 text-red-500 hover:bg-red-50 rounded-md" />
-                    </Button>
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3 min-w-0">
+                        {channel.thumbnailUrl ? (
+                          <Avatar className="h-8 w-8">
+                            <AvatarImage
+                              src={channel.thumbnailUrl}
+                              alt={channel.name}
+                            />
+                            <AvatarFallback>
+                              {channel.name.charAt(0).toUpperCase()}
+                            </AvatarFallback>
+                          </Avatar>
+                        ) : (
+                          <SourceIcon sourceType={channel.sourceType} />
+                        )}
+                        <div className="min-w-0">
+                          <p className="truncate">{channel.name}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {describeSource(channel)}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Comment settings"
+                          onClick={() =>
+                            setEditingSourceId(
+                              editingSourceId === channel.id
+                                ? null
+                                : channel.id
+                            )
+                          }
+                        >
+                          <SlidersHorizontal className="h-4 w-4 text-muted-foreground" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeChannel(channel.id)}
+                          disabled={isLoading}
+                        >
+                          <X className="h-4 w-4 text-red-500 hover:bg-red-50 rounded-md" />
+                        </Button>
+                      </div>
+                    </div>
+                    {editingSourceId === channel.id && (
+                      <CommentPolicyEditor
+                        source={channel}
+                        onSaved={(updatedSource) => {
+                          setChannels(
+                            channels.map((c) =>
+                              c.id === updatedSource.id ? updatedSource : c
+                            )
+                          );
+                          setEditingSourceId(null);
+                        }}
+                      />
+                    )}
                   </div>
                 ))}
               </ScrollArea>
             )}
           </div>
+          <div className="space-y-2">
+            <h3 className="font-semibold text-red-500 text-lg">
+              Import Comments
+            </h3>
+            <p className="text-sm text-muted-foreground">
+              CSV or JSON exports, or comments.csv from a Google Takeout
+              archive. Imported comments are used for the next ideas.
+            </p>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importComments(file);
+              }}
+            />
+            <Button
+              variant="outline"
+              onClick={() => importInputRef.current?.click()}
+              disabled={isImporting}
+              className="rounded-lg font-semibold"
+            >
+              {isImporting ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4" />
+              )}
+              <p>{isImporting ? "Importing..." : "Upload file"}</p>
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <h3 className="font-semibold text-red-500 text-lg">Schedule</h3>
+            <p className="text-sm text-muted-foreground">
+              Automatically scrape, refresh stats and generate ideas.
+            </p>
+            <div className="flex items-center rounded-lg border bg-white p-1 text-sm w-fit">
+              {(
+                [
+                  ["off", "Off"],
+                  ["daily", "Daily"],
+                  ["weekly", "Weekly"],
+                ] as const
+              ).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => changeSchedule(value)}
+                  className={cn(
+                    "rounded-md px-3 py-1 transition-all",
+                    schedule === value
+                      ? "bg-red-500 text-white"
+                      : "text-muted-foreground hover:text-red-500"
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {llmSettings && (
+            <div className="space-y-2">
+              <h3 className="font-semibold text-red-500 text-lg">
+                Idea Model
+              </h3>
+              <p className="text-sm text-muted-foreground">
+                OpenAI-compatible covers local servers such as Ollama, set
+                with OPENAI_BASE_URL.
+              </p>
+              <LlmSettingsEditor
+                settings={llmSettings}
+                onSaved={setLlmSettings}
+              />
+            </div>
+          )}
+          {quota && (
+            <div className="space-y-2">
+              <h3 className="font-semibold text-red-500 text-lg">
+                YouTube Quota
+              </h3>
+              <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+                <div
+                  className="h-full bg-red-500 transition-all"
+                  style={{
+                    width: `${(quota.remaining / quota.limit) * 100}%`,
+                  }}
+                />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {formatCount(quota.remaining)} of {formatCount(quota.limit)}{" "}
+                units left today
+              </p>
+            </div>
+          )}
         </div>
       </DialogContent>
     </Dialog>
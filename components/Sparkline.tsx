@@ -0,0 +1,49 @@
+import { cn } from "@/lib/utils";
+
+interface Props {
+  values: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+export default function Sparkline({
+  values,
+  width = 120,
+  height = 32,
+  className,
+}: Props) {
+  if (values.length < 2) {
+    return (
+      <span className="text-xs text-muted-foreground">Not enough data</span>
+    );
+  }
+
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const points = values
+    .map((value, index) => {
+      const x = (index / (values.length - 1)) * width;
+      const y = height - ((value - min) / range) * (height - 2) - 1;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={cn("text-red-500", className)}
+    >
+      <polyline
+        points={points}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={2}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+}
@@ -0,0 +1,98 @@
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { MessageSquare, ThumbsUp, TvMinimal, Users } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { formatCount } from "@/lib/utils";
+import { TopCommenter } from "@/server/queries";
+
+interface Props {
+  channelTitle: string | null;
+  commenters: TopCommenter[];
+}
+
+export default function TopCommenters({ channelTitle, commenters }: Props) {
+  if (commenters.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 px-4 space-y-5">
+        <div className="bg-red-50 rounded-xl p-3">
+          <Users className="h-11 w-11 text-red-500" strokeWidth={1.5} />
+        </div>
+        <h3 className="text-2xl font-semibold text-gray-900">
+          No commenters yet
+        </h3>
+        <p className="text-gray-500 text-center max-w-md">
+          Scrape this channel&apos;s videos to see who comments on them the
+          most.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="mb-6 space-y-1">
+        <h1 className="text-3xl font-bold">Top Commenters</h1>
+        {channelTitle && (
+          <p className="text-sm font-semibold text-muted-foreground">
+            {channelTitle}
+          </p>
+        )}
+      </div>
+      <div className="space-y-3">
+        {commenters.map((commenter, index) => (
+          <div
+            key={commenter.authorChannelId}
+            className="flex items-center gap-4 rounded-2xl border bg-white shadow-sm px-5 py-4"
+          >
+            <span className="w-6 text-lg font-bold text-red-500">
+              {index + 1}
+            </span>
+            <Avatar>
+              {commenter.authorProfileImageUrl && (
+                <AvatarImage
+                  src={commenter.authorProfileImageUrl}
+                  alt={commenter.authorDisplayName ?? "Commenter"}
+                />
+              )}
+              <AvatarFallback>
+                {(commenter.authorDisplayName?.replace(/^@/, "") || "?")
+                  .charAt(0)
+                  .toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1 space-y-1">
+              <Link
+                href={`https://www.youtube.com/channel/${commenter.authorChannelId}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-medium text-red-500 hover:underline"
+              >
+                {commenter.authorDisplayName || "Anonymous"}
+              </Link>
+              {commenter.lastCommentedAt && (
+                <p className="text-xs text-muted-foreground">
+                  Last commented{" "}
+                  {formatDistanceToNow(new Date(commenter.lastCommentedAt))} ago
+                </p>
+              )}
+            </div>
+            <div className="flex items-center space-x-6 text-sm text-muted-foreground font-semibold">
+              <div className="flex items-center space-x-1">
+                <MessageSquare className="w-4 h-4" strokeWidth={3} />
+                <span>{formatCount(commenter.commentCount)} comments</span>
+              </div>
+              <div className="flex items-center space-x-1">
+                <TvMinimal className="w-4 h-4" strokeWidth={3} />
+                <span>{formatCount(commenter.videoCount)} videos</span>
+              </div>
+              <div className="flex items-center space-x-1">
+                <ThumbsUp className="w-4 h-4" strokeWidth={3} />
+                <span>{formatCount(commenter.totalLikes)} likes</span>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
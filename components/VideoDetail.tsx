@@ -1,29 +1,161 @@
 "use client";
 
-import { Video, VideoComments } from "@/server/db/schema";
+import {
+  Video,
+  VideoComments,
+  VideoStatsSnapshot,
+} from "@/server/db/schema";
 import { formatDistanceToNow } from "date-fns";
-import { ThumbsUp, MessageSquare, Eye, Clock } from "lucide-react";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { useState } from "react";
+import {
+  ThumbsUp,
+  MessageSquare,
+  Eye,
+  Clock,
+  ChevronDown,
+  ChevronUp,
+} from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import Image from "next/image";
-import { formatCount } from "@/lib/utils";
+import Link from "next/link";
+import { cn, formatCount } from "@/lib/utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { viewVelocity } from "@/lib/growth";
+import GrowthChart from "@/components/GrowthChart";
+import Sparkline from "@/components/Sparkline";
+import CommentBody from "@/components/CommentBody";
+
+type Comment = typeof VideoComments.$inferSelect;
 
 interface Props {
   video: Video;
-  comments: (typeof VideoComments.$inferSelect)[];
+  comments: Comment[];
+  snapshots: VideoStatsSnapshot[];
 }
 
-export default function VideoDetail({ video, comments }: Props) {
+function CommentItem({
+  comment,
+  youtubeVideoId,
+}: {
+  comment: Comment;
+  youtubeVideoId: string;
+}) {
+  return (
+    <div className="flex gap-4">
+      <Avatar>
+        {comment.authorProfileImageUrl && (
+          <AvatarImage
+            src={comment.authorProfileImageUrl}
+            alt={comment.authorDisplayName ?? "Commenter"}
+          />
+        )}
+        <AvatarFallback>
+          {(comment.authorDisplayName?.replace(/^@/, "") || comment.commentText)
+            .charAt(0)
+            .toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <div className="space-y-1.5">
+        <div className="flex items-center space-x-2">
+          {comment.authorChannelId ? (
+            <Link
+              href={`https://www.youtube.com/channel/${comment.authorChannelId}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-medium text-red-500 hover:underline"
+            >
+              {comment.authorDisplayName || "Anonymous"}
+            </Link>
+          ) : (
+            <div className="font-medium text-red-500">
+              {comment.authorDisplayName || "Anonymous"}
+            </div>
+          )}
+          <div className="text-sm text-muted-foreground">
+            {formatDistanceToNow(new Date(comment.publishedAt))} ago
+          </div>
+        </div>
+        <CommentBody
+          commentText={comment.commentText}
+          commentHtml={comment.commentHtml}
+          youtubeVideoId={youtubeVideoId}
+        />
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <div className="flex items-center space-x-1">
+            <ThumbsUp className="w-4 h-4" />
+            <span>{comment.likeCount}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function VideoDetail({ video, comments, snapshots }: Props) {
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(
+    new Set()
+  );
+
+  const topLevelComments = comments
+    .filter((comment) => !comment.parentId)
+    .sort(
+      (a, b) =>
+        new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
+    );
+
+  // Replies read oldest first, like on YouTube
+  const repliesByParent: Record<string, Comment[]> = {};
+  for (const comment of comments) {
+    if (comment.parentId) {
+      (repliesByParent[comment.parentId] ??= []).push(comment);
+    }
+  }
+  for (const replies of Object.values(repliesByParent)) {
+    replies.sort(
+      (a, b) =>
+        new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime()
+    );
+  }
+
+  const toggleThread = (commentId: string) => {
+    setExpandedThreads((prev) => {
+      const next = new Set(prev);
+      if (next.has(commentId)) {
+        next.delete(commentId);
+      } else {
+        next.add(commentId);
+      }
+      return next;
+    });
+  };
+
   return (
     <div className="space-y-6">
-      <div className="flex items-center justify-between space-x-4 p-5 rounded-2xl bg-white border w-full shadow-sm">
+      {video.availability === "unavailable" && (
+        <div className="rounded-2xl border bg-gray-50 px-6 py-4 text-sm text-muted-foreground">
+          This video was removed or made private
+          {video.availabilityChangedAt &&
+            ` ${formatDistanceToNow(new Date(video.availabilityChangedAt))} ago`}
+          . Its comments are no longer used for new ideas; ideas already
+          generated from them are kept.
+        </div>
+      )}
+      <div
+        className={cn(
+          "flex items-center justify-between space-x-4 p-5 rounded-2xl bg-white border w-full shadow-sm",
+          video.availability === "unavailable" && "opacity-60 grayscale"
+        )}
+      >
         <div className="space-y-5 w-1/2 p-5">
           <h1 className="text-3xl font-bold line-clamp-2 text-red-500">
             {video.title}
           </h1>
-          <div className="text-sm font-semibold text-muted-foreground">
+          <Link
+            href={`/channel/${video.channelId}/commenters`}
+            className="block text-sm font-semibold text-muted-foreground hover:text-red-500 transition-all"
+          >
             {video.channelTitle}
-          </div>
+          </Link>
           <div className="flex items-center space-x-6 text-sm text-muted-foreground font-semibold">
             <div className="flex items-center space-x-1">
               <Eye className="w-4 h-4" strokeWidth={3} />
@@ -56,6 +188,29 @@ export default function VideoDetail({ video, comments }: Props) {
         </div>
       </div>
 
+      <div className="space-y-6 p-8 rounded-2xl bg-white border w-full shadow-sm">
+        <h2 className="text-xl font-semibold text-red-500">Growth</h2>
+        <GrowthChart snapshots={snapshots} publishedAt={video.publishedAt} />
+        <div className="grid grid-cols-5 gap-4">
+          {viewVelocity(snapshots, video.publishedAt).map(({ label, views }) => (
+            <div key={label} className="rounded-lg border bg-gray-50 px-4 py-3">
+              <p className="text-xs text-muted-foreground">{label}</p>
+              <p className="text-lg font-semibold">
+                {views === null ? "—" : `${formatCount(views)} views`}
+              </p>
+            </div>
+          ))}
+          <div className="rounded-lg border bg-gray-50 px-4 py-3 space-y-1">
+            <p className="text-xs text-muted-foreground">Likes</p>
+            <Sparkline values={snapshots.map((s) => s.likeCount)} />
+          </div>
+          <div className="rounded-lg border bg-gray-50 px-4 py-3 space-y-1">
+            <p className="text-xs text-muted-foreground">Comments</p>
+            <Sparkline values={snapshots.map((s) => s.commentCount)} />
+          </div>
+        </div>
+      </div>
+
       <div className="space-y-4 p-8 rounded-2xl bg-white border w-full shadow-sm">
         <h2 className="text-xl font-semibold text-red-500">Description</h2>
         <ScrollArea className="h-[500px]">
@@ -66,48 +221,66 @@ export default function VideoDetail({ video, comments }: Props) {
       </div>
 
       <div className="space-y-8 p-8 rounded-2xl bg-white border w-full shadow-sm">
-        <h2 className="text-xl font-semibold text-red-500">Comments</h2>
+        <div className="flex items-baseline justify-between">
+          <h2 className="text-xl font-semibold text-red-500">Comments</h2>
+          {video.commentPolicy && (
+            <p className="text-xs text-muted-foreground">
+              {[
+                `Up to ${video.commentPolicy.maxComments} comments`,
+                video.commentPolicy.order === "relevance"
+                  ? "top first"
+                  : "newest first",
+                video.commentPolicy.minLikes > 0
+                  ? `at least ${video.commentPolicy.minLikes} likes`
+                  : null,
+              ]
+                .filter(Boolean)
+                .join(" • ")}
+            </p>
+          )}
+        </div>
         {comments.length === 0 ? (
           <p className="text-sm text-muted-foreground">No comments yet.</p>
         ) : (
           <div className="space-y-8">
-            {comments
-              .sort(
-                (a, b) =>
-                  new Date(b.publishedAt).getTime() -
-                  new Date(a.publishedAt).getTime()
-              )
-              .map((comment) => (
-                <div key={comment.id}>
-                  <div>
-                    <div className="flex gap-4">
-                      <Avatar>
-                        <AvatarFallback>
-                          {comment.commentText.charAt(0).toUpperCase()}
-                        </AvatarFallback>
-                      </Avatar>
-                      <div className="space-y-1.5">
-                        <div className="flex items-center space-x-2">
-                          <div className="font-medium text-red-500">
-                            Anonymous
-                          </div>
-                          <div className="text-sm text-muted-foreground">
-                            {formatDistanceToNow(new Date(comment.publishedAt))}{" "}
-                            ago
-                          </div>
-                        </div>
-                        <p className="text-sm">{comment.commentText}</p>
-                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                          <div className="flex items-center space-x-1">
-                            <ThumbsUp className="w-4 h-4" />
-                            <span>{comment.likeCount}</span>
-                          </div>
-                        </div>
-                      </div>
+            {topLevelComments.map((comment) => {
+              const replies = repliesByParent[comment.id] ?? [];
+              const isExpanded = expandedThreads.has(comment.id);
+
+              return (
+                <div key={comment.id} className="space-y-4">
+                  <CommentItem comment={comment} youtubeVideoId={video.videoId} />
+                  {replies.length > 0 && (
+                    <div className="ml-14 space-y-4">
+                      <button
+                        onClick={() => toggleThread(comment.id)}
+                        className="flex items-center space-x-1 text-sm font-semibold text-red-500 hover:text-red-600 transition-all"
+                      >
+                        {isExpanded ? (
+                          <ChevronUp className="w-4 h-4" />
+                        ) : (
+                          <ChevronDown className="w-4 h-4" />
+                        )}
+                        <span>
+                          {isExpanded ? "Hide" : "Show"} {replies.length}{" "}
+                          {replies.length === 1 ? "reply" : "replies"}
+                          {(comment.replyCount ?? 0) > replies.length &&
+                            ` of ${comment.replyCount}`}
+                        </span>
+                      </button>
+                      {isExpanded &&
+                        replies.map((reply) => (
+                          <CommentItem
+                            key={reply.id}
+                            comment={reply}
+                            youtubeVideoId={video.videoId}
+                          />
+                        ))}
                     </div>
-                  </div>
+                  )}
                 </div>
-              ))}
+              );
+            })}
           </div>
         )}
       </div>
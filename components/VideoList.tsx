@@ -2,33 +2,294 @@
 
 import Image from "next/image";
 import Link from "next/link";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { formatDistanceToNow } from "date-fns";
-import { Video } from "@/server/db/schema";
+import { ScrapeJob, Video, YouTubeChannelType } from "@/server/db/schema";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
-import { scrapeVideos } from "@/server/youtube-actions";
+import {
+  advanceScrapeJob,
+  startScrapeJob,
+  updateVideoStatistics,
+} from "@/server/youtube-actions";
+import { useRouter } from "next/navigation";
+import { getActiveScrapeJob, getVideosForUser } from "@/server/queries";
 import { useToast } from "@/hooks/use-toast";
-import { formatCount } from "@/lib/utils";
-import { Loader2, TvMinimal } from "lucide-react";
+import { cn, formatCount } from "@/lib/utils";
+import { Loader2, RefreshCw, TvMinimal } from "lucide-react";
+
+function ScrapeProgress({ job }: { job: ScrapeJob }) {
+  const totalChannels = job.channelIds.length;
+  const currentChannelProgress =
+    job.currentVideoIds.length > 0
+      ? job.processedVideoIds.length / job.currentVideoIds.length
+      : 0;
+  const percent =
+    ((job.completedChannelIds.length + currentChannelProgress) /
+      totalChannels) *
+    100;
+
+  return (
+    <div className="w-full max-w-md space-y-1.5">
+      <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+        <div
+          className="h-full bg-red-500 transition-all"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {job.completedChannelIds.length} of {totalChannels} channels done
+        {" • "}
+        {job.processedVideos} of {job.totalVideos} videos processed
+      </p>
+    </div>
+  );
+}
+
+function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+// Videos with more views than their channel has subscribers stand out
+const OUTLIER_RATIO = 1;
+
+function VideoCard({
+  video,
+  growthPerDay,
+  subscriberRatio,
+}: {
+  video: Video;
+  growthPerDay?: number;
+  subscriberRatio?: number;
+}) {
+  return (
+    <Link href={`/video/${video.id}`} className="group block">
+      <div
+        className={cn(
+          "rounded-2xl overflow-hidden border bg-white shadow-sm p-4 space-y-3 hover:scale-[1.05] transition-all duration-300",
+          video.availability === "unavailable" && "opacity-50 grayscale"
+        )}
+      >
+        <div className="aspect-video relative">
+          {video.thumbnailUrl ? (
+            <Image
+              src={video.thumbnailUrl}
+              alt={video.title}
+              fill
+              className="object-cover rounded-lg"
+            />
+          ) : (
+            <div className="w-full h-full bg-gray-200 flex items-center justify-center">
+              <span className="text-gray-400">No thumbnail</span>
+            </div>
+          )}
+          {video.availability === "unavailable" && (
+            <span className="absolute top-2 left-2 rounded bg-black/75 px-1.5 py-0.5 text-xs font-medium text-white">
+              Unavailable
+            </span>
+          )}
+          {video.durationSeconds !== null && (
+            <span className="absolute bottom-2 right-2 rounded bg-black/75 px-1.5 py-0.5 text-xs font-medium text-white">
+              {video.isShort
+                ? "Short"
+                : formatDuration(video.durationSeconds)}
+            </span>
+          )}
+        </div>
+        <div className="space-y-1.5">
+          <h2 className="font-semibold line-clamp-2 group-hover:text-primary">
+            {video.title}
+          </h2>
+          <p className="text-xs text-muted-foreground">
+            {video.channelTitle}
+          </p>
+          <div className="flex items-center text-xs text-muted-foreground">
+            <span>
+              {video.viewCount ? formatCount(video.viewCount) : "0"} views
+            </span>
+            <span className="mx-1">•</span>
+            <span>
+              {formatDistanceToNow(new Date(video.publishedAt))} ago
+            </span>
+            {growthPerDay !== undefined && (
+              <>
+                <span className="mx-1">•</span>
+                <span className="text-red-500 font-semibold">
+                  +{formatCount(Math.round(growthPerDay))}/day
+                </span>
+              </>
+            )}
+            {subscriberRatio !== undefined && (
+              <>
+                <span className="mx-1">•</span>
+                <span
+                  title="Views per subscriber"
+                  className={cn(
+                    subscriberRatio >= OUTLIER_RATIO &&
+                      "text-red-500 font-semibold"
+                  )}
+                >
+                  {subscriberRatio.toFixed(subscriberRatio < 10 ? 1 : 0)}× subs
+                </span>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </Link>
+  );
+}
+
+function ChannelHeader({
+  channel,
+  fallbackTitle,
+  videoCount,
+}: {
+  channel?: YouTubeChannelType;
+  fallbackTitle: string;
+  videoCount: number;
+}) {
+  const title = channel?.name ?? fallbackTitle;
+
+  return (
+    <div className="flex items-center space-x-3">
+      <Avatar className="h-10 w-10">
+        {channel?.thumbnailUrl && (
+          <AvatarImage src={channel.thumbnailUrl} alt={title} />
+        )}
+        <AvatarFallback>{title.charAt(0).toUpperCase()}</AvatarFallback>
+      </Avatar>
+      <div>
+        <h2 className="text-lg font-semibold">{title}</h2>
+        <p className="text-xs text-muted-foreground">
+          {[
+            channel?.handle,
+            channel?.subscriberCount != null
+              ? `${formatCount(channel.subscriberCount)} subscribers`
+              : null,
+            channel?.totalViewCount != null
+              ? `${formatCount(channel.totalViewCount)} total views`
+              : null,
+            channel?.videoCount != null
+              ? `${formatCount(channel.videoCount)} videos on YouTube`
+              : null,
+            channel?.country,
+            `${videoCount} scraped`,
+          ]
+            .filter(Boolean)
+            .join(" • ")}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+type SortOrder = "newest" | "fastest" | "outliers";
+type FormatFilter = "all" | "shorts" | "long";
 
 export default function VideoList({
   initialVideos,
+  growth,
+  channels,
 }: {
   initialVideos: Video[];
+  growth: Record<string, number>; // Views per day by Videos.id
+  channels: YouTubeChannelType[];
 }) {
   const [isScraping, setIsScraping] = useState(false);
+  const [waitingForQuota, setWaitingForQuota] = useState(false); // Scrape paused until the quota resets
   const [videos, setVideos] = useState(initialVideos);
+  const [job, setJob] = useState<ScrapeJob | null>(null);
+  const [sortOrder, setSortOrder] = useState<SortOrder>("newest");
+  const [formatFilter, setFormatFilter] = useState<FormatFilter>("all");
+  const [groupByChannel, setGroupByChannel] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
   const { toast } = useToast();
+  const router = useRouter();
+
+  const runJob = useCallback(
+    async (startedJob: ScrapeJob) => {
+      setIsScraping(true);
+      setJob(startedJob);
+
+      let isRunning = true;
+      // Only for showing progress; the loop below gets the job's state from
+      // every slice anyway, so polling just stops if it fails
+      const poll = setInterval(async () => {
+        try {
+          const response = await fetch(`/api/scrape-jobs/${startedJob.id}`);
+          if (response.ok && isRunning) {
+            setJob(await response.json());
+          }
+        } catch (error) {
+          console.error("Error polling scrape progress:", error);
+          clearInterval(poll);
+        }
+      }, 2000);
+
+      try {
+        let currentJob = startedJob;
+        // A job that ran out of quota earlier is tried again; if the quota
+        // hasn't reset yet it stops again right away
+        if (currentJob.status === "QUOTA_EXHAUSTED") {
+          currentJob = await advanceScrapeJob(currentJob.id);
+          setJob(currentJob);
+        }
+        setWaitingForQuota(false);
+        while (
+          currentJob.status === "PENDING" ||
+          currentJob.status === "RUNNING"
+        ) {
+          // A lease that is still held means another tab is running this job
+          if (currentJob.lockedUntil) {
+            await new Promise((resolve) => setTimeout(resolve, 2000));
+          }
+          currentJob = await advanceScrapeJob(currentJob.id);
+          setJob(currentJob);
+        }
+
+        setVideos(await getVideosForUser());
+
+        if (currentJob.status === "SUCCESS") {
+          toast({
+            title: "Scrape Successful",
+            description: `Scraped ${currentJob.newVideos} new videos`,
+          });
+        } else if (currentJob.status === "QUOTA_EXHAUSTED") {
+          setWaitingForQuota(true);
+          toast({
+            title: "YouTube Quota Exhausted",
+            description: `Scraped ${currentJob.newVideos} new videos before running out of quota. Scrape again after the daily reset to resume.`,
+            variant: "destructive",
+          });
+        } else {
+          toast({
+            title: "Scrape Failed",
+            description: currentJob.error ?? "An unknown error occurred",
+            variant: "destructive",
+          });
+        }
+      } finally {
+        isRunning = false;
+        clearInterval(poll);
+        setJob(null);
+        setIsScraping(false);
+      }
+    },
+    [toast]
+  );
 
-  const handleScrape = async () => {
+  const handleScrape = async (fullBackfill = false) => {
     setIsScraping(true);
     try {
-      const newVideos = await scrapeVideos();
-      setVideos((prevVideos) => [...newVideos, ...prevVideos]);
-      toast({
-        title: "Scrape Successful",
-        description: `Scraped ${newVideos.length} new videos`,
-      });
+      const startedJob = await startScrapeJob({ fullBackfill });
+      await runJob(startedJob);
     } catch (error) {
       console.error("Error scraping videos:", error);
       let errorMessage = "An unknown error occurred";
@@ -53,10 +314,109 @@ export default function VideoList({
     }
   };
 
+  const handleRefreshStats = async () => {
+    setIsRefreshing(true);
+    try {
+      const result = await updateVideoStatistics();
+      // Re-render the page so counts and growth come from the new stats
+      router.refresh();
+
+      if (result.status === "quota_exhausted") {
+        toast({
+          title: "YouTube Quota Exhausted",
+          description: `Refreshed ${result.refreshed} of ${videos.length} videos before running out of quota. ${result.changed} changed.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Stats Refreshed",
+          description:
+            `${result.changed} of ${result.refreshed} videos changed` +
+            (result.unavailable > 0
+              ? `, ${result.unavailable} no longer available`
+              : ""),
+        });
+      }
+    } catch (error) {
+      console.error("Error refreshing stats:", error);
+      toast({
+        title: "Refresh Failed",
+        description:
+          error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  // Pick up a scrape that was still running when the page was left. One
+  // that ran out of quota waits for the user to try again.
+  useEffect(() => {
+    getActiveScrapeJob()
+      .then((activeJob) => {
+        if (activeJob?.status === "QUOTA_EXHAUSTED") {
+          setWaitingForQuota(true);
+        } else if (activeJob) {
+          return runJob(activeJob);
+        }
+      })
+      .catch((error) => console.error("Error resuming scrape job:", error));
+  }, [runJob]);
+
   useEffect(() => {
     setVideos(initialVideos);
   }, [initialVideos]);
 
+  // Only channel sources carry subscriber counts
+  const channelsById = new Map(
+    channels
+      .filter((channel) => channel.sourceType === "channel" && channel.channelId)
+      .map((channel) => [channel.channelId!, channel])
+  );
+
+  const subscriberRatio = (video: Video): number | undefined => {
+    const subscribers = channelsById.get(video.channelId)?.subscriberCount;
+    return subscribers ? (video.viewCount ?? 0) / subscribers : undefined;
+  };
+
+  const sortedVideos = videos
+    .filter((video) =>
+      formatFilter === "shorts"
+        ? video.isShort
+        : formatFilter === "long"
+          ? !video.isShort
+          : true
+    )
+    .sort((a, b) =>
+      sortOrder === "fastest"
+        ? (growth[b.id] ?? 0) - (growth[a.id] ?? 0)
+        : sortOrder === "outliers"
+          ? (subscriberRatio(b) ?? -1) - (subscriberRatio(a) ?? -1)
+          : new Date(b.publishedAt).getTime() -
+            new Date(a.publishedAt).getTime()
+    );
+
+  // Groups keep the sort order, and are ordered by their first video
+  const channelGroups: { channelId: string; videos: Video[] }[] = [];
+  sortedVideos.forEach((video) => {
+    const group = channelGroups.find((g) => g.channelId === video.channelId);
+    if (group) {
+      group.videos.push(video);
+    } else {
+      channelGroups.push({ channelId: video.channelId, videos: [video] });
+    }
+  });
+
+  const renderCard = (video: Video) => (
+    <VideoCard
+      key={video.id}
+      video={video}
+      growthPerDay={sortOrder === "fastest" ? growth[video.id] : undefined}
+      subscriberRatio={subscriberRatio(video)}
+    />
+  );
+
   if (videos.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-16 px-4 space-y-5">
@@ -69,7 +429,7 @@ export default function VideoList({
           will be analyzed for content ideas.
         </p>
         <Button
-          onClick={handleScrape}
+          onClick={() => handleScrape()}
           disabled={isScraping}
           className="bg-red-500 hover:bg-red-600 transition-all rounded-lg text-md font-semibold px-6 py-5"
         >
@@ -78,10 +438,13 @@ export default function VideoList({
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
               Scraping...
             </>
+          ) : waitingForQuota ? (
+            <>Waiting for quota · Try again</>
           ) : (
             <>Scrape Videos</>
           )}
         </Button>
+        {job && <ScrapeProgress job={job} />}
       </div>
     );
   }
@@ -89,58 +452,122 @@ export default function VideoList({
   return (
     <>
       <div className="flex justify-between items-center mb-6">
-        <h1 className="text-3xl font-bold">Videos</h1>
-        <Button
-          onClick={handleScrape}
-          disabled={isScraping}
-          className="bg-red-500 hover:bg-red-600 transition-all rounded-lg text-md font-semibold px-6 py-3"
-        >
-          {isScraping ? "Scraping..." : "Scrape"}
-        </Button>
-      </div>
-      <div className="grid grid-cols-3 gap-6">
-        {videos.map((video) => (
-          <Link
-            key={video.id}
-            href={`/video/${video.id}`}
-            className="group block"
-          >
-            <div className="rounded-2xl overflow-hidden border bg-white shadow-sm p-4 space-y-3 hover:scale-[1.05] transition-all duration-300">
-              <div className="aspect-video relative">
-                {video.thumbnailUrl ? (
-                  <Image
-                    src={video.thumbnailUrl}
-                    alt={video.title}
-                    fill
-                    className="object-cover rounded-lg"
-                  />
-                ) : (
-                  <div className="w-full h-full bg-gray-200 flex items-center justify-center">
-                    <span className="text-gray-400">No thumbnail</span>
-                  </div>
+        <div className="flex items-center space-x-4">
+          <h1 className="text-3xl font-bold">Videos</h1>
+          <div className="flex items-center rounded-lg border bg-white p-1 text-sm">
+            {(
+              [
+                ["newest", "Newest"],
+                ["fastest", "Fastest growing"],
+                ["outliers", "Outliers"],
+              ] as const
+            ).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setSortOrder(value)}
+                className={cn(
+                  "rounded-md px-3 py-1 transition-all",
+                  sortOrder === value
+                    ? "bg-red-500 text-white"
+                    : "text-muted-foreground hover:text-red-500"
                 )}
-              </div>
-              <div className="space-y-1.5">
-                <h2 className="font-semibold line-clamp-2 group-hover:text-primary">
-                  {video.title}
-                </h2>
-                <p className="text-xs text-muted-foreground">
-                  {video.channelTitle}
-                </p>
-                <div className="flex items-center text-xs text-muted-foreground">
-                  <span>
-                    {video.viewCount ? formatCount(video.viewCount) : "0"} views
-                  </span>
-                  <span className="mx-1">•</span>
-                  <span>
-                    {formatDistanceToNow(new Date(video.publishedAt))} ago
-                  </span>
-                </div>
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center rounded-lg border bg-white p-1 text-sm">
+            {(
+              [
+                ["all", "All"],
+                ["long", "Long-form"],
+                ["shorts", "Shorts"],
+              ] as const
+            ).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setFormatFilter(value)}
+                className={cn(
+                  "rounded-md px-3 py-1 transition-all",
+                  formatFilter === value
+                    ? "bg-red-500 text-white"
+                    : "text-muted-foreground hover:text-red-500"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setGroupByChannel(!groupByChannel)}
+            className={cn(
+              "rounded-lg border px-3 py-1.5 text-sm transition-all",
+              groupByChannel
+                ? "bg-red-500 text-white border-red-500"
+                : "bg-white text-muted-foreground hover:text-red-500"
+            )}
+          >
+            By channel
+          </button>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            onClick={handleRefreshStats}
+            disabled={isRefreshing || isScraping}
+            className="transition-all rounded-lg text-md font-semibold px-6 py-3"
+          >
+            <RefreshCw
+              className={cn("mr-2 h-4 w-4", isRefreshing && "animate-spin")}
+            />
+            {isRefreshing ? "Refreshing..." : "Refresh stats"}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleScrape(true)}
+            disabled={isScraping}
+            className="transition-all rounded-lg text-md font-semibold px-6 py-3"
+          >
+            Full Backfill
+          </Button>
+          <Button
+            onClick={() => handleScrape()}
+            disabled={isScraping}
+            className="bg-red-500 hover:bg-red-600 transition-all rounded-lg text-md font-semibold px-6 py-3"
+          >
+            {isScraping
+              ? "Scraping..."
+              : waitingForQuota
+                ? "Waiting for quota · Try again"
+                : "Scrape"}
+          </Button>
+        </div>
+      </div>
+      {job && (
+        <div className="mb-6">
+          <ScrapeProgress job={job} />
+        </div>
+      )}
+      {groupByChannel ? (
+        <div className="space-y-10">
+          {channelGroups.map((group) => (
+            <div key={group.channelId} className="space-y-4">
+              <ChannelHeader
+                channel={channelsById.get(group.channelId)}
+                fallbackTitle={group.videos[0].channelTitle}
+                videoCount={group.videos.length}
+              />
+              <div className="grid grid-cols-3 gap-6">
+                {group.videos.map(renderCard)}
               </div>
             </div>
-          </Link>
-        ))}
-      </div>
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-3 gap-6">
+          {sortedVideos.map(renderCard)}
+        </div>
+      )}
     </>
   );
 }
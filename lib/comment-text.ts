@@ -0,0 +1,261 @@
+// YouTube hands out comments as HTML (textDisplay) with entities, <br>,
+// formatting tags and anchors for links and timestamps. We parse that into
+// a small set of segments instead of trusting the markup: anything outside
+// the allowed tags is dropped, links must be http(s), and the result is
+// rendered as React elements, never as raw HTML.
+
+export type CommentMark = "b" | "i" | "s";
+
+export type CommentSegment =
+  | { type: "text"; text: string; marks: CommentMark[] }
+  | { type: "link"; text: string; href: string }
+  | { type: "timestamp"; text: string; seconds: number }
+  | { type: "break" };
+
+const MARK_TAGS: Record<string, CommentMark> = {
+  b: "b",
+  strong: "b",
+  i: "i",
+  em: "i",
+  s: "s",
+  strike: "s",
+  del: "s",
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z]+)([^>]*)>/g;
+const TIMESTAMP_PATTERN = /\b(?:(\d{1,2}):)?(\d{1,2}):([0-5]\d)\b/g;
+const URL_PATTERN = /https?:\/\/[^\s<]+[^\s<.,:;"')\]]/g;
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const codePoint =
+        code[1].toLowerCase() === "x"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff
+        ? String.fromCodePoint(codePoint)
+        : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function timestampSeconds(text: string): number | null {
+  const match = text.trim().match(/^(?:(\d{1,2}):)?(\d{1,2}):([0-5]\d)$/);
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds] = match;
+  return (
+    parseInt(hours ?? "0", 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10)
+  );
+}
+
+function safeHref(href: string): string | null {
+  try {
+    const url = new URL(href);
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? url.toString()
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Finds bare URLs and timestamps in plain text
+function linkifyText(text: string, marks: CommentMark[]): CommentSegment[] {
+  const matches: { index: number; end: number; segment: CommentSegment }[] =
+    [];
+
+  Array.from(text.matchAll(URL_PATTERN)).forEach((match) => {
+    const href = safeHref(match[0]);
+    if (href) {
+      matches.push({
+        index: match.index!,
+        end: match.index! + match[0].length,
+        segment: { type: "link", text: match[0], href },
+      });
+    }
+  });
+
+  Array.from(text.matchAll(TIMESTAMP_PATTERN)).forEach((match) => {
+    const index = match.index!;
+    const insideUrl = matches.some((m) => index >= m.index && index < m.end);
+    if (!insideUrl) {
+      matches.push({
+        index,
+        end: index + match[0].length,
+        segment: {
+          type: "timestamp",
+          text: match[0],
+          seconds: timestampSeconds(match[0])!,
+        },
+      });
+    }
+  });
+
+  matches.sort((a, b) => a.index - b.index);
+
+  const segments: CommentSegment[] = [];
+  let position = 0;
+  matches.forEach(({ index, end, segment }) => {
+    if (index > position) {
+      segments.push({ type: "text", text: text.slice(position, index), marks });
+    }
+    segments.push(segment);
+    position = end;
+  });
+  if (position < text.length) {
+    segments.push({ type: "text", text: text.slice(position), marks });
+  }
+
+  return segments;
+}
+
+function pushText(
+  segments: CommentSegment[],
+  text: string,
+  marks: CommentMark[]
+) {
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (index > 0) segments.push({ type: "break" });
+    if (line) segments.push(...linkifyText(line, marks));
+  });
+}
+
+// Parses YouTube's textDisplay, or HTML we stored with sanitizeCommentHtml
+export function parseCommentHtml(html: string): CommentSegment[] {
+  const segments: CommentSegment[] = [];
+  const marks: CommentMark[] = [];
+  let anchor: { href: string | null; text: string } | null = null;
+  let timestamp: { text: string } | null = null;
+  let skipping: string | null = null; // Inside a tag whose content is dropped
+  let position = 0;
+
+  const handleText = (raw: string) => {
+    const text = decodeEntities(raw);
+    if (skipping) {
+      return;
+    } else if (anchor) {
+      anchor.text += text;
+    } else if (timestamp) {
+      timestamp.text += text;
+    } else {
+      pushText(segments, text, Array.from(marks));
+    }
+  };
+
+  Array.from(html.matchAll(TAG_PATTERN)).forEach((match) => {
+    handleText(html.slice(position, match.index));
+    position = match.index! + match[0].length;
+
+    const [, closing, rawName, attributes] = match;
+    const name = rawName.toLowerCase();
+
+    if (skipping) {
+      if (closing && name === skipping) skipping = null;
+    } else if (name === "script" || name === "style") {
+      skipping = closing ? null : name;
+    } else if (name === "br") {
+      segments.push({ type: "break" });
+    } else if (MARK_TAGS[name]) {
+      if (closing) {
+        const index = marks.lastIndexOf(MARK_TAGS[name]);
+        if (index !== -1) marks.splice(index, 1);
+      } else {
+        marks.push(MARK_TAGS[name]);
+      }
+    } else if (name === "a" && !closing) {
+      const href = attributes.match(/href\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+      anchor = {
+        href: href ? decodeEntities(href[1] ?? href[2]) : null,
+        text: "",
+      };
+    } else if (name === "a" && anchor) {
+      const { href, text } = anchor;
+      anchor = null;
+      const seconds = timestampSeconds(text);
+      const safe = href ? safeHref(href) : null;
+
+      // YouTube turns timestamps into links to the video at that time
+      if (seconds !== null && (!safe || /[?&]t=/.test(safe))) {
+        segments.push({ type: "timestamp", text, seconds });
+      } else if (safe) {
+        segments.push({ type: "link", text: text || safe, href: safe });
+      } else {
+        pushText(segments, text, Array.from(marks));
+      }
+    } else if (name === "time" && !closing) {
+      timestamp = { text: "" };
+    } else if (name === "time" && timestamp) {
+      const { text } = timestamp;
+      timestamp = null;
+      const seconds = timestampSeconds(text);
+      if (seconds !== null) {
+        segments.push({ type: "timestamp", text, seconds });
+      } else {
+        pushText(segments, text, Array.from(marks));
+      }
+    }
+    // Any other tag is dropped, keeping its text
+  });
+
+  handleText(html.slice(position));
+  return segments;
+}
+
+// Plain text from imports or textOriginal, with URLs and timestamps found
+export function parseCommentText(text: string): CommentSegment[] {
+  const segments: CommentSegment[] = [];
+  pushText(segments, text, []);
+  return segments;
+}
+
+// Re-serializes YouTube's textDisplay keeping only what parseCommentHtml
+// understands. This is the rich form we store.
+export function sanitizeCommentHtml(html: string): string {
+  return parseCommentHtml(html)
+    .map((segment) => {
+      switch (segment.type) {
+        case "break":
+          return "<br>";
+        case "link":
+          return `<a href="${escapeHtml(segment.href)}">${escapeHtml(segment.text)}</a>`;
+        case "timestamp":
+          return `<time datetime="PT${segment.seconds}S">${escapeHtml(segment.text)}</time>`;
+        case "text":
+          return segment.marks.reduce(
+            (inner, mark) => `<${mark}>${inner}</${mark}>`,
+            escapeHtml(segment.text)
+          );
+      }
+    })
+    .join("");
+}
+
+// Plain text for the LLM and for matching, from YouTube's textDisplay
+export function commentHtmlToText(html: string): string {
+  return parseCommentHtml(html)
+    .map((segment) => (segment.type === "break" ? "\n" : segment.text))
+    .join("");
+}
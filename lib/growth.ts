@@ -0,0 +1,72 @@
+export interface StatsPoint {
+  capturedAt: Date | string;
+  viewCount: number;
+  likeCount: number;
+  commentCount: number;
+}
+
+export const VELOCITY_WINDOWS = [
+  { label: "First 24 hours", hours: 24 },
+  { label: "First 7 days", hours: 24 * 7 },
+  { label: "First 30 days", hours: 24 * 30 },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Views at a moment in time, interpolated between the snapshots around it.
+// A video is treated as having 0 views when published. Returns null when the
+// snapshots around that moment are further apart than maxGapMs, since the
+// interpolation would be a guess.
+export function viewsAt(
+  points: StatsPoint[],
+  publishedAt: Date | string,
+  at: Date,
+  maxGapMs: number
+): number | null {
+  const timeline = [
+    { time: new Date(publishedAt).getTime(), views: 0 },
+    ...points.map((point) => ({
+      time: new Date(point.capturedAt).getTime(),
+      views: point.viewCount,
+    })),
+  ].sort((a, b) => a.time - b.time);
+
+  const target = at.getTime();
+  const after = timeline.findIndex((point) => point.time >= target);
+
+  if (after === -1) {
+    return null;
+  }
+  if (after === 0 || timeline[after].time === target) {
+    return timeline[after].views;
+  }
+
+  const before = timeline[after - 1];
+  const next = timeline[after];
+
+  if (next.time - before.time > maxGapMs) {
+    return null;
+  }
+
+  const progress = (target - before.time) / (next.time - before.time);
+  return Math.round(before.views + (next.views - before.views) * progress);
+}
+
+// Views gained in each of VELOCITY_WINDOWS after publishing, or null where
+// we don't have snapshots close enough to that point.
+export function viewVelocity(
+  points: StatsPoint[],
+  publishedAt: Date | string
+): { label: string; views: number | null }[] {
+  const published = new Date(publishedAt).getTime();
+
+  return VELOCITY_WINDOWS.map(({ label, hours }) => ({
+    label,
+    views: viewsAt(
+      points,
+      publishedAt,
+      new Date(published + hours * HOUR_MS),
+      hours * HOUR_MS
+    ),
+  }));
+}
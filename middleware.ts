@@ -1,6 +1,6 @@
 import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 
-const isProtectedRoute = createRouteMatcher(['/videos(.*)','/videos(.*)','/video(.*)','/ideas(.*)'])
+const isProtectedRoute = createRouteMatcher(['/videos(.*)','/videos(.*)','/video(.*)','/ideas(.*)','/channel(.*)'])
 
 export default clerkMiddleware((auth, request) => {
   if (isProtectedRoute(request)) {
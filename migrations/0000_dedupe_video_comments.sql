@@ -0,0 +1,42 @@
+-- Every scrape used to re-insert all comments of a video, so collapse each
+-- group of identical comments onto its oldest row before deleting the rest.
+-- Ideas are re-pointed at the surviving row and it keeps isUsed if any copy had it.
+UPDATE "ideas"
+SET "comment_id" = "dupes"."keep_id"
+FROM (
+  SELECT
+    "id",
+    first_value("id") OVER (
+      PARTITION BY "user_id", "video_id", "comment_text", "published_at"
+      ORDER BY "created_at", "id"
+    ) AS "keep_id"
+  FROM "video_comments"
+) AS "dupes"
+WHERE "ideas"."comment_id" = "dupes"."id"
+  AND "dupes"."id" <> "dupes"."keep_id";
+--> statement-breakpoint
+UPDATE "video_comments"
+SET "is_used" = true
+WHERE "is_used" = false
+  AND EXISTS (
+    SELECT 1
+    FROM "video_comments" AS "other"
+    WHERE "other"."user_id" = "video_comments"."user_id"
+      AND "other"."video_id" = "video_comments"."video_id"
+      AND "other"."comment_text" = "video_comments"."comment_text"
+      AND "other"."published_at" = "video_comments"."published_at"
+      AND "other"."is_used" = true
+  );
+--> statement-breakpoint
+DELETE FROM "video_comments"
+USING (
+  SELECT
+    "id",
+    row_number() OVER (
+      PARTITION BY "user_id", "video_id", "comment_text", "published_at"
+      ORDER BY "created_at", "id"
+    ) AS "position"
+  FROM "video_comments"
+) AS "dupes"
+WHERE "video_comments"."id" = "dupes"."id"
+  AND "dupes"."position" > 1;
@@ -0,0 +1,16 @@
+-- Scraped comments used to store YouTube's textDisplay, which is HTML, as
+-- their text. Keep that markup as the rich form (it is sanitized again when
+-- rendered and replaced on the next scrape) and turn the text into plain text:
+-- line breaks become newlines, other tags are stripped, entities are decoded
+-- with &amp; last so that escaped entities stay literal.
+UPDATE "video_comments"
+SET
+  "comment_html" = "comment_text",
+  "comment_text" = replace(replace(replace(replace(replace(replace(
+    regexp_replace(
+      regexp_replace("comment_text", '<br\s*/?>', E'\n', 'gi'),
+      '<[^>]+>', '', 'g'
+    ),
+    '&quot;', '"'), '&#39;', ''''), '&lt;', '<'), '&gt;', '>'), '&nbsp;', ' '), '&amp;', '&')
+WHERE "comment_html" IS NULL
+  AND "comment_text" ~* '<br\s*/?>|<a\s|<(b|i|s)>|&(amp|quot|#39|lt|gt);';
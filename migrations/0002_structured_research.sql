@@ -0,0 +1,23 @@
+-- Ideas used to keep research as bare URLs in "research". Turn each URL into
+-- a reference in "research_references", dated when the idea was created, and
+-- clear the old column so that running this again changes nothing.
+UPDATE "ideas"
+SET
+  "research_references" = COALESCE(
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'title', NULL,
+          'url', "url",
+          'viewCount', NULL,
+          'channel', NULL,
+          'fetchedAt', to_char("ideas"."created_at", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+        )
+        ORDER BY "position"
+      )
+      FROM unnest("ideas"."research") WITH ORDINALITY AS "urls" ("url", "position")
+    ),
+    '[]'::jsonb
+  ),
+  "research" = NULL
+WHERE "research" IS NOT NULL;
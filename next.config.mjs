@@ -5,6 +5,12 @@ const nextConfig = {
     // your project has ESLint errors.
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    // Comment exports are uploaded through a server action
+    serverActions: {
+      bodySizeLimit: "10mb",
+    },
+  },
   images: {
     domains: ["i.ytimg.com"],
   },
@@ -0,0 +1,213 @@
+import { youtube_v3 } from "googleapis";
+import { youtube, youtubeRequest } from "@/server/youtube-client";
+import { ChannelLookupParams } from "@/server/youtube-provider";
+
+export interface ChannelCandidate {
+  channelId: string;
+  title: string;
+  handle: string | null;
+  thumbnailUrl: string | null;
+  subscriberCount: number | null; // Null when the channel hides it
+  viewCount: number | null;
+  videoCount: number | null;
+  country: string | null;
+}
+
+// What the user typed into the channel box, narrowed to how we can look it up
+export type ChannelInput =
+  | { kind: "id"; value: string }
+  | { kind: "handle"; value: string }
+  | { kind: "username"; value: string }
+  | { kind: "customUrl"; value: string }
+  | { kind: "name"; value: string };
+
+const CHANNEL_ID_PATTERN = /^UC[\w-]{22}$/;
+const HANDLE_PATTERN = /^@[\w.-]{3,30}$/;
+
+export function parseChannelInput(rawInput: string): ChannelInput {
+  const input = rawInput.trim();
+
+  if (CHANNEL_ID_PATTERN.test(input)) {
+    return { kind: "id", value: input };
+  }
+
+  if (HANDLE_PATTERN.test(input)) {
+    return { kind: "handle", value: input };
+  }
+
+  let url: URL | null = null;
+  try {
+    url = new URL(/^https?:\/\//i.test(input) ? input : `https://${input}`);
+  } catch {
+    url = null;
+  }
+
+  if (url && /(^|\.)youtube\.com$/i.test(url.hostname)) {
+    const [first, second] = url.pathname.split("/").filter(Boolean);
+    const segment = second ? decodeURIComponent(second) : undefined;
+
+    if (first?.startsWith("@")) {
+      return { kind: "handle", value: decodeURIComponent(first) };
+    }
+    if (first === "channel" && segment && CHANNEL_ID_PATTERN.test(segment)) {
+      return { kind: "id", value: segment };
+    }
+    if (first === "user" && segment) {
+      return { kind: "username", value: segment };
+    }
+    if (first === "c" && segment) {
+      return { kind: "customUrl", value: segment };
+    }
+  }
+
+  return { kind: "name", value: input };
+}
+
+function toCandidate(channel: youtube_v3.Schema$Channel): ChannelCandidate {
+  const thumbnails = channel.snippet?.thumbnails;
+  const statistics = channel.statistics;
+
+  return {
+    channelId: channel.id!,
+    title: channel.snippet?.title ?? channel.id!,
+    handle: channel.snippet?.customUrl ?? null,
+    thumbnailUrl:
+      thumbnails?.medium?.url ?? thumbnails?.default?.url ?? null,
+    subscriberCount:
+      statistics?.hiddenSubscriberCount || !statistics?.subscriberCount
+        ? null
+        : parseInt(statistics.subscriberCount, 10),
+    viewCount: statistics?.viewCount ? parseInt(statistics.viewCount, 10) : null,
+    videoCount: statistics?.videoCount
+      ? parseInt(statistics.videoCount, 10)
+      : null,
+    country: channel.snippet?.country ?? null,
+  };
+}
+
+async function listChannels(
+  params: ChannelLookupParams
+): Promise<ChannelCandidate[]> {
+  const channels = await youtubeRequest("channels.list", () =>
+    youtube.lookupChannels(params)
+  );
+
+  return channels.map(toCandidate);
+}
+
+// Looks a channel up by ID, handle, username or custom URL. Plain names have
+// no exact lookup and resolve to null.
+export async function resolveChannelExactly(
+  input: ChannelInput
+): Promise<ChannelCandidate | null> {
+  switch (input.kind) {
+    case "id":
+      return (await listChannels({ id: [input.value] }))[0] ?? null;
+    case "handle":
+      return (await listChannels({ forHandle: input.value }))[0] ?? null;
+    case "username":
+      return (await listChannels({ forUsername: input.value }))[0] ?? null;
+    case "customUrl": {
+      // The API can't look up legacy /c/ URLs, but most of them became the
+      // channel's handle, so try that before matching search results.
+      const [byHandle] = await listChannels({ forHandle: `@${input.value}` });
+      if (byHandle) {
+        return byHandle;
+      }
+
+      const candidates = await searchChannelCandidates(input.value);
+      const customUrl = `@${input.value}`.toLowerCase();
+      return (
+        candidates.find(
+          (candidate) => candidate.handle?.toLowerCase() === customUrl
+        ) ?? null
+      );
+    }
+    case "name":
+      return null;
+  }
+}
+
+// Maps a looked-up channel onto the metadata columns of YouTubeChannels
+export function toChannelMetadata(channel: ChannelCandidate) {
+  return {
+    name: channel.title,
+    handle: channel.handle,
+    thumbnailUrl: channel.thumbnailUrl,
+    subscriberCount: channel.subscriberCount,
+    totalViewCount: channel.viewCount,
+    videoCount: channel.videoCount,
+    country: channel.country,
+    metadataSyncedAt: new Date(),
+  };
+}
+
+// Candidates for a plain channel name, for the user to pick from
+export async function searchChannelCandidates(
+  query: string
+): Promise<ChannelCandidate[]> {
+  const channelIds = await youtubeRequest("search.list", () =>
+    youtube.searchChannels(query, 5)
+  );
+
+  if (channelIds.length === 0) {
+    return [];
+  }
+
+  // search.list has no statistics, so fetch them and keep the search ranking
+  const channels = await listChannels({ id: channelIds });
+  return channelIds
+    .map((channelId) => channels.find((c) => c.channelId === channelId))
+    .filter((channel): channel is ChannelCandidate => Boolean(channel));
+}
+
+export interface PlaylistCandidate {
+  playlistId: string;
+  title: string;
+  channelTitle: string | null;
+  thumbnailUrl: string | null;
+  itemCount: number | null;
+}
+
+const PLAYLIST_ID_PATTERN = /^(PL|UU|LL|FL|OL)[\w-]{10,}$/;
+
+// Accepts a playlist ID or any YouTube URL with a list= parameter
+export function parsePlaylistInput(rawInput: string): string | null {
+  const input = rawInput.trim();
+
+  if (PLAYLIST_ID_PATTERN.test(input)) {
+    return input;
+  }
+
+  try {
+    const url = new URL(/^https?:\/\//i.test(input) ? input : `https://${input}`);
+    const list = url.searchParams.get("list");
+    if (/(^|\.)youtube\.com$/i.test(url.hostname) && list) {
+      return list;
+    }
+  } catch {
+    return null;
+  }
+
+  return null;
+}
+
+export async function resolvePlaylist(
+  playlistId: string
+): Promise<PlaylistCandidate | null> {
+  const playlist = await youtubeRequest("playlists.list", () =>
+    youtube.getPlaylist(playlistId)
+  );
+  if (!playlist) {
+    return null;
+  }
+
+  const thumbnails = playlist.snippet?.thumbnails;
+  return {
+    playlistId: playlist.id!,
+    title: playlist.snippet?.title ?? playlist.id!,
+    channelTitle: playlist.snippet?.channelTitle ?? null,
+    thumbnailUrl: thumbnails?.medium?.url ?? thumbnails?.default?.url ?? null,
+    itemCount: playlist.contentDetails?.itemCount ?? null,
+  };
+}
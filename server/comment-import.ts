@@ -0,0 +1,490 @@
+import { db } from "@/server/db/drizzle";
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { InsertVideoComment, VideoComments } from "@/server/db/schema";
+import { ensureVideos } from "@/server/scraper";
+
+// Imports comments exported outside the API: CSV or JSON from other tools,
+// YouTube Studio exports and the comments.csv in a Google Takeout archive.
+// Not a server action module: callers authenticate the user first.
+
+export type CommentImportFormat = "csv" | "takeout" | "json";
+
+export interface CommentImportResult {
+  format: CommentImportFormat;
+  parsed: number; // Comments read from the file
+  imported: number; // New comment rows
+  duplicates: number; // Already stored, or repeated in the file
+  skipped: number; // Unreadable rows or videos YouTube couldn't find
+}
+
+interface ImportedComment {
+  videoId: string;
+  commentId: string | null;
+  parentId: string | null;
+  text: string;
+  authorDisplayName: string | null;
+  authorChannelId: string | null;
+  likeCount: number;
+  publishedAt: Date;
+}
+
+// Column and key names we accept for each field, lowercased with anything
+// but letters and digits removed
+const FIELD_ALIASES = {
+  videoId: ["videoid", "video", "videourl", "url"],
+  commentId: ["commentid", "id"],
+  parentId: ["parentcommentid", "parentid"],
+  text: ["commenttext", "text", "comment", "textoriginal", "textdisplay", "content"],
+  authorDisplayName: ["authordisplayname", "author", "authorname", "username", "name"],
+  authorChannelId: ["authorchannelid", "channelid"],
+  likeCount: ["likecount", "likes", "votes"],
+  publishedAt: ["publishedat", "commentcreatetimestamp", "timestamp", "date", "time", "createdat"],
+} as const;
+
+type Field = keyof typeof FIELD_ALIASES;
+
+const VIDEO_ID_PATTERN = /^[a-zA-Z0-9_-]{11}$/;
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Accepts a bare video ID or a watch, youtu.be or Shorts URL
+function parseVideoId(value: string): string | null {
+  const input = value.trim();
+
+  if (VIDEO_ID_PATTERN.test(input)) {
+    return input;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.replace(/^(www|m|music)\./, "");
+  const candidate =
+    host === "youtu.be"
+      ? url.pathname.slice(1)
+      : host === "youtube.com"
+        ? url.searchParams.get("v") ?? url.pathname.split("/").filter(Boolean).pop()
+        : null;
+  return candidate && VIDEO_ID_PATTERN.test(candidate) ? candidate : null;
+}
+
+// Identifies a comment within an import; comments without a YouTube ID are
+// told apart by video, publish time and text
+function importKey(comment: ImportedComment): string {
+  return (
+    comment.commentId ??
+    `${comment.videoId}|${comment.publishedAt.toISOString()}|${comment.text}`
+  );
+}
+
+// Takeout stores comment text as JSON segments, e.g. {"text":"Nice "},{"text":"video"}
+function decodeTakeoutText(value: string): string {
+  try {
+    const segments = JSON.parse(`[${value}]`) as { text?: string }[];
+    return segments.map((segment) => segment.text ?? "").join("");
+  } catch {
+    return value;
+  }
+}
+
+function toImportedComment(
+  record: Partial<Record<Field, unknown>>
+): ImportedComment | null {
+  const value = (field: Field) => {
+    const raw = record[field];
+    return raw === undefined || raw === null || raw === "" ? null : String(raw);
+  };
+
+  const videoId = value("videoId") && parseVideoId(value("videoId")!);
+  const text = value("text");
+  const publishedAt = value("publishedAt") ? new Date(value("publishedAt")!) : null;
+
+  if (!videoId || !text || !publishedAt || isNaN(publishedAt.getTime())) {
+    return null;
+  }
+
+  return {
+    videoId,
+    commentId: value("commentId"),
+    parentId: value("parentId"),
+    text,
+    authorDisplayName: value("authorDisplayName"),
+    authorChannelId: value("authorChannelId"),
+    likeCount: parseInt(value("likeCount") ?? "0", 10) || 0,
+    publishedAt,
+  };
+}
+
+// Maps a row or object onto our fields using FIELD_ALIASES
+function pickFields(
+  source: Record<string, unknown>
+): Partial<Record<Field, unknown>> {
+  const byKey = new Map(
+    Object.keys(source).map((key) => [normalizeKey(key), source[key]])
+  );
+  const record: Partial<Record<Field, unknown>> = {};
+
+  (Object.keys(FIELD_ALIASES) as Field[]).forEach((field) => {
+    const alias = FIELD_ALIASES[field].find((key) => byKey.has(key));
+    if (alias) {
+      record[field] = byKey.get(alias);
+    }
+  });
+
+  return record;
+}
+
+// RFC 4180 CSV: quoted fields may contain commas, quotes and newlines
+function parseCsvRows(contents: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < contents.length; i++) {
+    const char = contents[i];
+
+    if (inQuotes) {
+      if (char === '"' && contents[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && contents[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+function parseCsv(contents: string): {
+  format: CommentImportFormat;
+  records: Partial<Record<Field, unknown>>[];
+} {
+  const [header = [], ...rows] = parseCsvRows(contents.replace(/^\uFEFF/, ""));
+  const isTakeout = header.some(
+    (column) => normalizeKey(column) === "commentcreatetimestamp"
+  );
+
+  const records = rows.map((cells) => {
+    const row: Record<string, string> = {};
+    header.forEach((column, index) => (row[column] = cells[index] ?? ""));
+
+    const record = pickFields(row);
+    if (isTakeout && typeof record.text === "string") {
+      record.text = decodeTakeoutText(record.text);
+    }
+    return record;
+  });
+
+  return { format: isTakeout ? "takeout" : "csv", records };
+}
+
+interface ApiComment {
+  id?: string;
+  snippet?: {
+    videoId?: string;
+    parentId?: string;
+    textOriginal?: string;
+    textDisplay?: string;
+    authorDisplayName?: string;
+    authorChannelId?: { value?: string };
+    likeCount?: number;
+    publishedAt?: string;
+  };
+}
+
+function fromApiComment(
+  comment: ApiComment,
+  videoId?: string
+): Partial<Record<Field, unknown>> {
+  return {
+    videoId: comment.snippet?.videoId ?? videoId,
+    commentId: comment.id,
+    parentId: comment.snippet?.parentId,
+    text: comment.snippet?.textOriginal ?? comment.snippet?.textDisplay,
+    authorDisplayName: comment.snippet?.authorDisplayName,
+    authorChannelId: comment.snippet?.authorChannelId?.value,
+    likeCount: comment.snippet?.likeCount,
+    publishedAt: comment.snippet?.publishedAt,
+  };
+}
+
+// Accepts an array of flat comment objects, or Data API commentThread and
+// comment resources as plain arrays or list responses
+function parseJson(contents: string): Partial<Record<Field, unknown>>[] {
+  const data = JSON.parse(contents);
+  const items: Record<string, unknown>[] = Array.isArray(data)
+    ? data
+    : data.items ?? data.comments ?? [];
+
+  return items.flatMap((item) => {
+    if (item.kind === "youtube#commentThread") {
+      const thread = item as {
+        snippet?: { videoId?: string; topLevelComment?: ApiComment };
+        replies?: { comments?: ApiComment[] };
+      };
+      const videoId = thread.snippet?.videoId;
+      const topLevel = thread.snippet?.topLevelComment ?? {};
+      return [
+        fromApiComment(topLevel, videoId),
+        ...(thread.replies?.comments ?? []).map((reply) =>
+          fromApiComment(reply, videoId)
+        ),
+      ];
+    }
+
+    if (item.kind === "youtube#comment") {
+      return [fromApiComment(item as ApiComment)];
+    }
+
+    return [pickFields(item)];
+  });
+}
+
+function parseImport(
+  fileName: string,
+  contents: string
+): { format: CommentImportFormat; records: Partial<Record<Field, unknown>>[] } {
+  const looksLikeJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(contents);
+
+  if (looksLikeJson) {
+    try {
+      return { format: "json", records: parseJson(contents) };
+    } catch {
+      throw new Error(`${fileName} is not valid JSON`);
+    }
+  }
+
+  return parseCsv(contents);
+}
+
+const INSERT_BATCH_SIZE = 500;
+
+async function insertComments(rows: InsertVideoComment[]): Promise<number> {
+  let inserted = 0;
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const insertedRows = await db
+      .insert(VideoComments)
+      .values(rows.slice(i, i + INSERT_BATCH_SIZE))
+      .onConflictDoNothing()
+      .returning({ id: VideoComments.id });
+    inserted += insertedRows.length;
+  }
+
+  return inserted;
+}
+
+function storedKey(videoRowId: string, publishedAt: Date, text: string) {
+  return `${videoRowId}|${publishedAt.toISOString()}|${text}`;
+}
+
+// Comments without a YouTube ID can't conflict on the unique index, so
+// they are matched against stored rows by text and publish time. The stored
+// comments of their videos are loaded in one query and compared here.
+async function loadStoredKeys(
+  userId: string,
+  videoRowIds: string[]
+): Promise<Set<string>> {
+  if (videoRowIds.length === 0) {
+    return new Set();
+  }
+
+  const stored = await db
+    .select({
+      videoId: VideoComments.videoId,
+      commentText: VideoComments.commentText,
+      publishedAt: VideoComments.publishedAt,
+    })
+    .from(VideoComments)
+    .where(
+      and(
+        eq(VideoComments.userId, userId),
+        inArray(VideoComments.videoId, videoRowIds)
+      )
+    );
+
+  return new Set(
+    stored.map((comment) =>
+      storedKey(comment.videoId, comment.publishedAt, comment.commentText)
+    )
+  );
+}
+
+function toRow(
+  userId: string,
+  videoRowId: string,
+  comment: ImportedComment,
+  extra: { parentId?: string; replyCount?: number }
+): InsertVideoComment {
+  return {
+    userId,
+    videoId: videoRowId,
+    youtubeCommentId: comment.commentId,
+    parentId: extra.parentId,
+    replyCount: extra.replyCount ?? 0,
+    commentText: comment.text,
+    authorDisplayName: comment.authorDisplayName,
+    authorChannelId: comment.authorChannelId,
+    likeCount: comment.likeCount,
+    publishedAt: comment.publishedAt,
+  };
+}
+
+// Parses an export and stores its comments as unused, so the next idea run
+// picks them up. Videos we haven't scraped are fetched from YouTube first.
+export async function importComments(
+  userId: string,
+  fileName: string,
+  contents: string
+): Promise<CommentImportResult> {
+  const { format, records } = parseImport(fileName, contents);
+  const result: CommentImportResult = {
+    format,
+    parsed: records.length,
+    imported: 0,
+    duplicates: 0,
+    skipped: 0,
+  };
+
+  const comments: ImportedComment[] = [];
+  const seenKeys = new Set<string>();
+
+  for (const record of records) {
+    const comment = toImportedComment(record);
+
+    if (!comment) {
+      result.skipped++;
+    } else if (seenKeys.has(importKey(comment))) {
+      result.duplicates++;
+    } else {
+      seenKeys.add(importKey(comment));
+      comments.push(comment);
+    }
+  }
+
+  const videoRowIds = await ensureVideos(
+    userId,
+    Array.from(new Set(comments.map((comment) => comment.videoId)))
+  );
+
+  const importable = comments.filter((comment) => {
+    if (!videoRowIds.has(comment.videoId)) {
+      result.skipped++;
+      return false;
+    }
+    return true;
+  });
+
+  // A reply's parent is in the same import or was stored earlier
+  const topLevel = importable.filter((comment) => !comment.parentId);
+  const replies = importable.filter((comment) => comment.parentId);
+  const replyCounts = new Map<string, number>();
+  replies.forEach((reply) =>
+    replyCounts.set(reply.parentId!, (replyCounts.get(reply.parentId!) ?? 0) + 1)
+  );
+
+  const storedKeys = await loadStoredKeys(
+    userId,
+    Array.from(
+      new Set(
+        importable
+          .filter((comment) => !comment.commentId)
+          .map((comment) => videoRowIds.get(comment.videoId)!)
+      )
+    )
+  );
+  const isStoredWithoutId = (videoRowId: string, comment: ImportedComment) =>
+    !comment.commentId &&
+    storedKeys.has(storedKey(videoRowId, comment.publishedAt, comment.text));
+
+  const topLevelRows: InsertVideoComment[] = [];
+  for (const comment of topLevel) {
+    const videoRowId = videoRowIds.get(comment.videoId)!;
+
+    if (isStoredWithoutId(videoRowId, comment)) {
+      result.duplicates++;
+      continue;
+    }
+
+    topLevelRows.push(
+      toRow(userId, videoRowId, comment, {
+        replyCount: replyCounts.get(comment.commentId ?? "") ?? 0,
+      })
+    );
+  }
+  const insertedTopLevel = await insertComments(topLevelRows);
+  result.imported += insertedTopLevel;
+  result.duplicates += topLevelRows.length - insertedTopLevel;
+
+  if (replies.length > 0) {
+    const parents = await db
+      .select({
+        id: VideoComments.id,
+        youtubeCommentId: VideoComments.youtubeCommentId,
+      })
+      .from(VideoComments)
+      .where(
+        and(
+          eq(VideoComments.userId, userId),
+          isNull(VideoComments.parentId),
+          inArray(
+            VideoComments.youtubeCommentId,
+            Array.from(replyCounts.keys())
+          )
+        )
+      );
+    const parentRowIds = new Map(
+      parents.map((parent) => [parent.youtubeCommentId!, parent.id])
+    );
+
+    const replyRows: InsertVideoComment[] = [];
+    for (const reply of replies) {
+      const videoRowId = videoRowIds.get(reply.videoId)!;
+
+      if (isStoredWithoutId(videoRowId, reply)) {
+        result.duplicates++;
+        continue;
+      }
+
+      // Replies whose parent we never saw are kept as top-level comments
+      replyRows.push(
+        toRow(userId, videoRowId, reply, {
+          parentId: parentRowIds.get(reply.parentId!),
+        })
+      );
+    }
+    const insertedReplies = await insertComments(replyRows);
+    result.imported += insertedReplies;
+    result.duplicates += replyRows.length - insertedReplies;
+  }
+
+  return result;
+}
@@ -0,0 +1,215 @@
+import { randomUUID } from "crypto";
+import { CrewJobState, CrewName } from "@/server/db/schema";
+import { CommentThread, createMockGenerator } from "@/server/llm-provider";
+import { generateIdeas, RunTrace } from "@/server/idea-generator";
+
+// Whoever executes an idea job in the background. The result is the ideas
+// as a JSON array in the same shape the prompt asks models for.
+
+export interface CrewStatus {
+  state: CrewJobState;
+  result: string | null;
+  error: string | null;
+  trace?: RunTrace; // Which of our models answered, for crews that use them
+}
+
+export interface CrewKickoff {
+  userId: string;
+  threads: CommentThread[];
+  webhookUrl: string | null; // Where to post the result, if we can be reached
+}
+
+export interface Crew {
+  name: CrewName; // Recorded on the job, and as the model of runs without a trace
+  kickoff(input: CrewKickoff): Promise<string>; // The crew's ID for the job
+  status(kickoffId: string): Promise<CrewStatus>;
+}
+
+const RUNNING: CrewStatus = { state: "RUNNING", result: null, error: null };
+
+// A CrewAI deployment, e.g. https://my-crew.crewai.com. It is given the
+// threads as its comment_threads input, calls the webhook when done and
+// reports { state, status, result } from its status endpoint.
+export function createCrewAiCrew(
+  url: string,
+  token: string | undefined
+): Crew {
+  const headers = {
+    "Content-Type": "application/json",
+    ...(token && { Authorization: `Bearer ${token}` }),
+  };
+  const baseUrl = url.replace(/\/+$/, "");
+
+  return {
+    name: "crewai",
+
+    async kickoff({ threads, webhookUrl }) {
+      const response = await fetch(`${baseUrl}/kickoff`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          inputs: { comment_threads: JSON.stringify(threads) },
+          ...(webhookUrl && { crewWebhookUrl: webhookUrl }),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Crew kickoff failed with ${response.status}`);
+      }
+
+      const { kickoff_id } = await response.json();
+      if (typeof kickoff_id !== "string") {
+        throw new Error("Crew kickoff returned no kickoff_id");
+      }
+      return kickoff_id;
+    },
+
+    async status(kickoffId) {
+      const response = await fetch(`${baseUrl}/status/${kickoffId}`, {
+        headers,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Crew status failed with ${response.status}`);
+      }
+
+      return toCrewStatus(await response.json());
+    },
+  };
+}
+
+// Reads CrewAI's status payloads, which webhooks deliver as well
+export function toCrewStatus(payload: {
+  state?: unknown;
+  status?: unknown;
+  result?: unknown;
+  error?: unknown;
+}): CrewStatus {
+  const state = String(payload.state ?? "").toUpperCase();
+  const result = typeof payload.result === "string" ? payload.result : null;
+
+  if (state === "SUCCESS" || (!state && result !== null)) {
+    return { state: "SUCCESS", result, error: null };
+  }
+  if (state === "FAILED" || state === "ERROR") {
+    const error = payload.error ?? payload.status;
+    return {
+      state: "FAILED",
+      result,
+      error: typeof error === "string" ? error : "The crew failed",
+    };
+  }
+  return { state: "RUNNING", result: null, error: null };
+}
+
+// Generates a local job's ideas with the user's own models. The model's own
+// answer is the result, so it is read back exactly as a direct run would
+// read it.
+export async function runLocalJob(
+  userId: string,
+  threads: CommentThread[]
+): Promise<CrewStatus> {
+  const trace: RunTrace = {};
+
+  try {
+    const { response } = await generateIdeas(userId, threads, trace);
+    return { state: "SUCCESS", result: response, error: null, trace };
+  } catch (error) {
+    return {
+      state: "FAILED",
+      result: null,
+      error: error instanceof Error ? error.message : String(error),
+      trace,
+    };
+  }
+}
+
+// Only records the job: a worker claims it from the database and runs it
+// with runLocalJob, so nothing has to outlive a request and it works on
+// serverless hosts. Workers store the result themselves.
+export function createLocalCrew(): Crew {
+  return {
+    name: "local",
+
+    async kickoff() {
+      return randomUUID();
+    },
+
+    async status() {
+      return RUNNING;
+    },
+  };
+}
+
+// Jobs of the mock crew. They only live as long as the server process, so
+// the mock crew needs a long-running server such as next start.
+const globalForCrews = globalThis as unknown as {
+  crewJobs?: Map<string, CrewStatus>;
+};
+const mockJobs = (globalForCrews.crewJobs ??= new Map());
+
+// Behaves like an external crew without calling a model: after a delay the
+// mock generator's ideas are posted to the webhook, so the whole callback
+// path can be exercised locally
+export function createMockCrew(delayMs: number): Crew {
+  return {
+    name: "mock",
+
+    async kickoff({ threads, webhookUrl }) {
+      const kickoffId = randomUUID();
+      mockJobs.set(kickoffId, RUNNING);
+
+      setTimeout(async () => {
+        const result = await createMockGenerator().generate({
+          text: "",
+          threads,
+        });
+        mockJobs.set(kickoffId, { state: "SUCCESS", result, error: null });
+
+        if (webhookUrl) {
+          try {
+            const response = await fetch(webhookUrl, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                kickoff_id: kickoffId,
+                state: "SUCCESS",
+                result,
+              }),
+            });
+            if (response.ok) {
+              mockJobs.delete(kickoffId); // Delivered; polls won't ask again
+            }
+          } catch (error) {
+            console.error("Mock crew failed to call the webhook:", error);
+          }
+        }
+      }, delayMs);
+
+      return kickoffId;
+    },
+
+    // A finished job is forgotten once its result has been handed out.
+    // Unknown jobs were delivered to the webhook or lost in a restart.
+    async status(kickoffId) {
+      const status: CrewStatus = mockJobs.get(kickoffId) ?? {
+        state: "FAILED",
+        result: null,
+        error: "The job was lost, probably because the server restarted",
+      };
+      if (status.state !== "RUNNING") {
+        mockJobs.delete(kickoffId);
+      }
+      return status;
+    },
+  };
+}
+
+// CREW_PROVIDER=crewai hands jobs to the deployment at CREW_API_URL,
+// CREW_PROVIDER=mock to the mock crew; the default is the local worker.
+export const crew: Crew =
+  process.env.CREW_PROVIDER === "crewai"
+    ? createCrewAiCrew(process.env.CREW_API_URL!, process.env.CREW_BEARER_TOKEN)
+    : process.env.CREW_PROVIDER === "mock"
+      ? createMockCrew(parseInt(process.env.MOCK_CREW_DELAY_MS || "3000", 10))
+      : createLocalCrew();
@@ -1,14 +1,31 @@
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import {
   integer,
+  bigint,
   text,
   boolean,
   pgTable,
   varchar,
   uuid,
   timestamp,
+  date,
+  jsonb,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 
+export type CommentOrder = "relevance" | "time";
+
+// YouTube returns nothing for deleted and private videos alike, so they
+// share one status
+export type VideoAvailability = "available" | "unavailable";
+
+// How many and which comments are fetched for each video of a source
+export interface CommentPolicy {
+  maxComments: number;
+  order: CommentOrder;
+  minLikes: number;
+}
+
 export const Videos = pgTable("videos", {
   id: uuid("id").defaultRandom().primaryKey(),
   userId: varchar("user_id", { length: 50 }).notNull(),
@@ -23,28 +40,146 @@ export const Videos = pgTable("videos", {
   likeCount: integer("like_count").default(0),
   dislikeCount: integer("dislike_count").default(0),
   commentCount: integer("comment_count").default(0),
+  durationSeconds: integer("duration_seconds"),
+  definition: text("definition"), // "hd" or "sd"
+  hasCaptions: boolean("has_captions"),
+  tags: text("tags").array().notNull().default([]),
+  categoryId: text("category_id"),
+  topicCategories: text("topic_categories").array().notNull().default([]), // Wikipedia URLs
+  isShort: boolean("is_short").notNull().default(false),
+  commentPolicy: jsonb("comment_policy").$type<CommentPolicy>(), // Applied when comments were last fetched
+  availability: text("availability").$type<VideoAvailability>().notNull().default("available"),
+  availabilityChangedAt: timestamp("availability_changed_at"),
+  sourceId: uuid("source_id").references(() => YouTubeChannels.id, {
+    onDelete: "set null",
+  }), // The source that first brought this video in
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Point-in-time copy of a video's counters, taken whenever they are refreshed
+export const VideoStatsSnapshots = pgTable("video_stats_snapshots", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: varchar("user_id", { length: 50 }).notNull(),
+  videoId: uuid("video_id")
+    .notNull()
+    .references(() => Videos.id, { onDelete: "cascade" }),
+  viewCount: integer("view_count").notNull(),
+  likeCount: integer("like_count").notNull(),
+  commentCount: integer("comment_count").notNull(),
+  capturedAt: timestamp("captured_at").defaultNow().notNull(),
+});
+
+export type SourceType = "channel" | "playlist" | "search";
+
+// A scrape source: a channel, a playlist or a keyword search. Only the
+// parameters of the row's sourceType are set.
 export const YouTubeChannels = pgTable("youtube_channels", {
   id: uuid("id").defaultRandom().primaryKey(),
   userId: varchar("user_id", { length: 50 }).notNull(),
+  sourceType: text("source_type").$type<SourceType>().notNull().default("channel"),
   name: text("name").notNull(),
   channelId: text("channel_id"),
+  // channels.list data for channel sources, synced on add and every scrape
+  handle: text("handle"),
+  thumbnailUrl: text("thumbnail_url"),
+  subscriberCount: integer("subscriber_count"), // Null when the channel hides it
+  totalViewCount: bigint("total_view_count", { mode: "number" }),
+  videoCount: integer("video_count"),
+  country: text("country"),
+  metadataSyncedAt: timestamp("metadata_synced_at"),
+  playlistId: text("playlist_id"),
+  searchQuery: text("search_query"),
+  searchWindowDays: integer("search_window_days"), // Only videos published this many days back are searched
+  maxComments: integer("max_comments").notNull().default(100), // Top-level comments per video
+  commentOrder: text("comment_order").$type<CommentOrder>().notNull().default("time"),
+  minCommentLikes: integer("min_comment_likes").notNull().default(0),
+  lastVideoPublishedAt: timestamp("last_video_published_at"), // Newest video seen, used as the incremental scrape watermark
+  lastScrapedAt: timestamp("last_scraped_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-export const VideoComments = pgTable("video_comments", {
+export const VideoComments = pgTable(
+  "video_comments",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    videoId: uuid("video_id").notNull(),
+    userId: varchar("user_id", { length: 50 }).notNull(),
+    youtubeCommentId: text("youtube_comment_id"), // Null for rows scraped before IDs were stored
+    parentId: uuid("parent_id"), // Set on replies, points at the top-level comment
+    replyCount: integer("reply_count").default(0), // Total replies on YouTube, not just the stored ones
+    commentText: text("comment_text").notNull(), // Plain text as the author wrote it
+    commentHtml: text("comment_html"), // Sanitized rich form, null for imported comments
+    authorDisplayName: text("author_display_name"),
+    authorChannelId: text("author_channel_id"),
+    authorProfileImageUrl: text("author_profile_image_url"),
+    likeCount: integer("like_count").default(0),
+    dislikeCount: integer("dislike_count").default(0),
+    publishedAt: timestamp("published_at").notNull(),
+    isUsed: boolean("is_used").default(false),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    youtubeCommentIdx: uniqueIndex("video_comments_youtube_comment_idx").on(
+      table.userId,
+      table.videoId,
+      table.youtubeCommentId
+    ),
+  })
+);
+
+// A video or page to look at when making an idea. Only the URL is certain;
+// the rest is filled in when the source provides it.
+export interface ResearchReference {
+  title: string | null;
+  url: string;
+  viewCount: number | null;
+  channel: string | null;
+  fetchedAt: string; // ISO timestamp of when the details were looked up
+}
+
+// Whether an idea's research was checked against YouTube: "verified" when
+// every reference the model gave is a real video, "replaced" when invented
+// ones were swapped for search results, "unverified" when nothing could be
+// confirmed and the model's references are shown as they came
+export type ResearchStatus = "pending" | "verified" | "replaced" | "unverified";
+
+export type IdeaRunStatus = "RUNNING" | "SUCCESS" | "FAILED";
+
+// An idea that couldn't be tied to a comment that was sent
+export interface DiscardedIdea {
+  description: string;
+  videoTitle: string;
+  videoId: string;
+  commentId: string;
+  reason: string;
+}
+
+// What was left out of a run's ideas and why
+export interface IdeaRunReport {
+  errors: string[]; // Ideas that failed validation
+  discarded: DiscardedIdea[];
+}
+
+// One idea generation: what was sent, which model answered and with what
+export const IdeaRuns = pgTable("idea_runs", {
   id: uuid("id").defaultRandom().primaryKey(),
-  videoId: uuid("video_id").notNull(),
   userId: varchar("user_id", { length: 50 }).notNull(),
-  commentText: text("comment_text").notNull(),
-  likeCount: integer("like_count").default(0),
-  dislikeCount: integer("dislike_count").default(0),
-  publishedAt: timestamp("published_at").notNull(),
-  isUsed: boolean("is_used").default(false),
+  status: text("status").$type<IdeaRunStatus>().notNull().default("RUNNING"),
+  provider: text("provider").$type<LlmProvider>(), // Set once a model answered
+  model: text("model"),
+  promptVersion: text("prompt_version").notNull(),
+  commentIds: uuid("comment_ids").array().notNull(), // Every comment of the threads sent
+  rawResponse: text("raw_response"),
+  repairResponse: text("repair_response"),
+  ideaCount: integer("idea_count").notNull().default(0),
+  report: jsonb("report").$type<IdeaRunReport>(),
+  error: text("error"),
+  durationMs: integer("duration_ms"),
+  retryOf: uuid("retry_of"), // The failed run this one retried
+  finishedAt: timestamp("finished_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -52,6 +187,9 @@ export const VideoComments = pgTable("video_comments", {
 export const Ideas = pgTable("ideas", {
   id: uuid("id").defaultRandom().primaryKey(),
   userId: varchar("user_id", { length: 50 }).notNull(),
+  runId: uuid("run_id").references(() => IdeaRuns.id, {
+    onDelete: "set null",
+  }), // Null for ideas from before runs were recorded
   videoId: uuid("video_id")
     .notNull()
     .references(() => Videos.id),
@@ -61,18 +199,128 @@ export const Ideas = pgTable("ideas", {
   score: integer("score").default(0),
   videoTitle: text("video_title").notNull(),
   description: text("description").notNull(),
-  research: text("research").array().notNull(), // List of URLs
+  research: jsonb("research_references")
+    .$type<ResearchReference[]>()
+    .notNull()
+    .default([]),
+  legacyResearchUrls: text("research").array(), // Bare URLs from before references; moved into research by migration 0002
+  researchStatus: text("research_status")
+    .$type<ResearchStatus>()
+    .notNull()
+    .default("pending"),
+  researchCheckedAt: timestamp("research_checked_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-export const CrewJobs = pgTable("crew_jobs", {
+export type CrewJobState = "RUNNING" | "SUCCESS" | "FAILED";
+
+export type CrewName = "local" | "crewai" | "mock";
+
+// An idea run handed to a crew, the local worker or an external CrewAI
+// deployment. The result is stored on the run once, when processed is set.
+export const CrewJobs = pgTable(
+  "crew_jobs",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: varchar("user_id", { length: 50 }).notNull(),
+    runId: uuid("run_id")
+      .notNull()
+      .references(() => IdeaRuns.id, { onDelete: "cascade" }),
+    crew: text("crew").$type<CrewName>().notNull().default("local"),
+    kickoffId: text("kickoff_id").unique(), // The crew's ID for the job, once it has accepted it
+    jobState: text("job_state").$type<CrewJobState>().notNull().default("RUNNING"),
+    jobResult: text("job_result"),
+    error: text("error"),
+    processed: boolean("processed").default(false),
+    lockedUntil: timestamp("locked_until"), // Lease of the worker running a local job
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    // One unprocessed job per user, so two kickoffs can't send the same comments
+    activeJobIdx: uniqueIndex("crew_jobs_active_job_idx")
+      .on(table.userId)
+      .where(sql`${table.processed} = false`),
+  })
+);
+
+export type ScheduleFrequency = "daily" | "weekly" | "off";
+
+// "openai" is any OpenAI-compatible endpoint, including local servers such
+// as Ollama or llama.cpp
+export type LlmProvider = "gemini" | "openai" | "mock";
+
+// A null model uses the provider's default
+export interface LlmChoice {
+  provider: LlmProvider;
+  model: string | null;
+}
+
+// The model ideas are generated with, and the ones tried in order when it fails
+export interface LlmSettings extends LlmChoice {
+  fallbacks: LlmChoice[];
+}
+
+export const UserSettings = pgTable("user_settings", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: varchar("user_id", { length: 50 }).notNull().unique(),
+  scheduleFrequency: text("schedule_frequency")
+    .$type<ScheduleFrequency>()
+    .notNull()
+    .default("off"),
+  lastScheduledRunAt: timestamp("last_scheduled_run_at"),
+  scheduleLockedUntil: timestamp("schedule_locked_until"), // Lease held by the cron run processing this user
+  llmProvider: text("llm_provider")
+    .$type<LlmProvider>()
+    .notNull()
+    .default("gemini"),
+  llmModel: text("llm_model"),
+  llmFallbacks: jsonb("llm_fallbacks")
+    .$type<LlmChoice[]>()
+    .notNull()
+    .default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type ScrapeJobStatus =
+  | "PENDING"
+  | "RUNNING"
+  | "QUOTA_EXHAUSTED"
+  | "SUCCESS"
+  | "FAILED";
+
+// A scrape is run in time-boxed slices; each slice picks up where the last
+// one stopped using the progress recorded here.
+export const ScrapeJobs = pgTable("scrape_jobs", {
   id: uuid("id").defaultRandom().primaryKey(),
   userId: varchar("user_id", { length: 50 }).notNull(),
-  kickoffId: text("kickoff_id").notNull(),
-  jobState: text("job_state").notNull().default("RUNNING"),
-  jobResult: text("job_result"),
-  processed: boolean("processed").default(false),
+  status: text("status").$type<ScrapeJobStatus>().notNull().default("PENDING"),
+  fullBackfill: boolean("full_backfill").notNull().default(false),
+  channelIds: uuid("channel_ids").array().notNull(), // YouTubeChannels rows, in scrape order
+  completedChannelIds: uuid("completed_channel_ids").array().notNull().default([]),
+  currentChannelId: uuid("current_channel_id"),
+  currentVideoIds: text("current_video_ids").array().notNull().default([]), // Listing of the channel in progress
+  currentListingComplete: boolean("current_listing_complete").notNull().default(false),
+  currentListingDone: boolean("current_listing_done").notNull().default(true), // False while the listing is paged through
+  listingPageToken: text("listing_page_token"), // Next listing page of the channel in progress
+  processedVideoIds: text("processed_video_ids").array().notNull().default([]), // Done videos of the channel in progress
+  totalVideos: integer("total_videos").notNull().default(0),
+  processedVideos: integer("processed_videos").notNull().default(0),
+  newVideos: integer("new_videos").notNull().default(0),
+  error: text("error"),
+  lockedUntil: timestamp("locked_until"), // Lease held by the slice currently running
+  finishedAt: timestamp("finished_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One row per quota day (Pacific time), shared by all users of the API key
+export const YouTubeQuotaUsage = pgTable("youtube_quota_usage", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  day: date("day").notNull().unique(),
+  unitsUsed: integer("units_used").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -81,8 +329,19 @@ export const CrewJobs = pgTable("crew_jobs", {
 export const VideoRelations = relations(Videos, ({ many }) => ({
   comments: many(VideoComments),
   ideas: many(Ideas),
+  statsSnapshots: many(VideoStatsSnapshots),
 }));
 
+export const VideoStatsSnapshotRelations = relations(
+  VideoStatsSnapshots,
+  ({ one }) => ({
+    video: one(Videos, {
+      fields: [VideoStatsSnapshots.videoId],
+      references: [Videos.id],
+    }),
+  })
+);
+
 export const VideoCommentRelations = relations(VideoComments, ({ one }) => ({
   video: one(Videos, {
     fields: [VideoComments.videoId],
@@ -104,11 +363,24 @@ export const IdeaRelations = relations(Ideas, ({ one }) => ({
 // Types
 export type Video = typeof Videos.$inferSelect;
 export type InsertVideo = typeof Videos.$inferInsert;
+export type VideoStatsSnapshot = typeof VideoStatsSnapshots.$inferSelect;
+export type InsertVideoStatsSnapshot = typeof VideoStatsSnapshots.$inferInsert;
 export type YouTubeChannelType = typeof YouTubeChannels.$inferSelect;
 export type InsertYouTubeChannel = typeof YouTubeChannels.$inferInsert;
 export type VideoComment = typeof VideoComments.$inferSelect;
 export type InsertVideoComment = typeof VideoComments.$inferInsert;
 export type Idea = typeof Ideas.$inferSelect;
 export type InsertIdea = typeof Ideas.$inferInsert;
+export type IdeaRun = typeof IdeaRuns.$inferSelect;
+export type InsertIdeaRun = typeof IdeaRuns.$inferInsert;
+export type IdeaRunSummary = Omit<
+  IdeaRun,
+  "userId" | "rawResponse" | "repairResponse" | "finishedAt" | "updatedAt"
+>;
 export type CrewJob = typeof CrewJobs.$inferSelect;
 export type InsertCrewJob = typeof CrewJobs.$inferInsert;
+export type UserSettingsType = typeof UserSettings.$inferSelect;
+export type InsertUserSettings = typeof UserSettings.$inferInsert;
+export type ScrapeJob = typeof ScrapeJobs.$inferSelect;
+export type InsertScrapeJob = typeof ScrapeJobs.$inferInsert;
+export type YouTubeQuotaUsageType = typeof YouTubeQuotaUsage.$inferSelect;
@@ -0,0 +1,494 @@
+import { db } from "@/server/db/drizzle";
+import { eq, and, inArray, isNull, or } from "drizzle-orm";
+import {
+  Videos,
+  VideoComments,
+  DiscardedIdea,
+  Ideas,
+  IdeaRunReport,
+  IdeaRuns,
+  InsertIdea,
+  LlmChoice,
+  LlmProvider,
+  UserSettings,
+} from "@/server/db/schema";
+import {
+  CommentThread,
+  createIdeaGenerator,
+  generateWithFallback,
+  IdeaGenerator,
+} from "@/server/llm-provider";
+import {
+  buildRepairPrompt,
+  formatItemErrors,
+  IDEA_SCHEMA_DESCRIPTION,
+  IdeaData,
+  IdeaOutputError,
+  matchIdeasToThreads,
+  parseIdeaOutput,
+  ParsedIdeas,
+} from "@/server/idea-output";
+import { verifyIdeaResearch } from "@/server/research";
+
+// Bump when buildIdeaPrompt changes, so runs show which prompt they used
+export const IDEA_PROMPT_VERSION = "3";
+
+// A run that got an answer but nothing usable out of it
+class RunFailedError extends Error {
+  constructor(message: string, public report: IdeaRunReport) {
+    super(message);
+    this.name = "RunFailedError";
+  }
+}
+
+// What a run produced; errors describe ideas the model got wrong and that
+// were skipped, discarded the ones about comments that weren't sent
+export interface IdeaGenerationResult {
+  ideas: number;
+  errors: string[];
+  discarded: DiscardedIdea[];
+}
+
+function buildIdeaPrompt(comments: CommentThread[]): string {
+  return `You are a creative content creator generating video ideas based on YouTube comments. 
+  Given a set of YouTube comment threads, generate creative video ideas, a short description for each idea, and identify existing videos or pages worth researching for the idea.  Each idea should be scored from 0 to 10, representing how good the idea is (10 = best).
+  Structure the output as ${IDEA_SCHEMA_DESCRIPTION}
+
+  Each thread has the top-level comment in "comment" and the replies to it in "replies". Use the replies as context for what viewers are asking for.
+
+  Here are the comment threads: ${JSON.stringify(comments)}
+
+  IMPORTANT:
+  1. Always return the output in valid JSON format.  Do not include any other text outside the JSON array.
+  2. Only return a maximum of 5 ideas.
+  3. Ensure the video_id and comment_id exactly match the input data.
+  4. The score must be a number between 0 and 10.
+  5. Do not include any preamble or explanation text.  Only return the JSON.
+  `;
+}
+
+// The user's chosen model followed by their fallbacks, each tried once
+async function getIdeaGenerators(userId: string): Promise<IdeaGenerator[]> {
+  const [settings] = await db
+    .select({
+      provider: UserSettings.llmProvider,
+      model: UserSettings.llmModel,
+      fallbacks: UserSettings.llmFallbacks,
+    })
+    .from(UserSettings)
+    .where(eq(UserSettings.userId, userId));
+
+  const choices: LlmChoice[] = settings
+    ? [{ provider: settings.provider, model: settings.model }, ...settings.fallbacks]
+    : [{ provider: "gemini", model: null }];
+
+  const generators = choices.map(createIdeaGenerator);
+  return generators.filter(
+    (generator, index) =>
+      generators.findIndex(
+        (other) =>
+          other.provider === generator.provider && other.model === generator.model
+      ) === index
+  );
+}
+
+// What a run has learned so far, kept when it fails part way
+export interface RunTrace {
+  provider?: LlmProvider | null;
+  model?: string | null;
+  rawResponse?: string;
+  repairResponse?: string;
+}
+
+export interface GeneratedIdeas {
+  ideas: IdeaData[];
+  errors: string[];
+  response: string; // The answer the ideas were read from
+}
+
+// A response that isn't valid gets one repair attempt from the same model,
+// told what was wrong with it
+export async function generateIdeas(
+  userId: string,
+  threads: CommentThread[],
+  trace: RunTrace
+): Promise<GeneratedIdeas> {
+  const { output, generator } = await generateWithFallback(
+    await getIdeaGenerators(userId),
+    { text: buildIdeaPrompt(threads), threads }
+  );
+  trace.provider = generator.provider;
+  trace.model = generator.model;
+  trace.rawResponse = output;
+
+  let parsed: ParsedIdeas | null = null;
+  let response = output;
+  let problems: string[];
+  try {
+    parsed = parseIdeaOutput(output);
+    problems = formatItemErrors(parsed.errors);
+  } catch (error) {
+    if (!(error instanceof IdeaOutputError)) {
+      throw error;
+    }
+    problems = [error.message];
+  }
+
+  if (problems.length > 0) {
+    console.warn(
+      `Repairing ${generator.provider}/${generator.model} response:`,
+      problems
+    );
+    try {
+      trace.repairResponse = await generator.generate({
+        text: buildRepairPrompt(output, problems),
+        threads,
+      });
+      const repaired = parseIdeaOutput(trace.repairResponse);
+      // Keep whichever answer has more usable ideas
+      if (!parsed || repaired.ideas.length >= parsed.ideas.length) {
+        parsed = repaired;
+        response = trace.repairResponse;
+      }
+    } catch (error) {
+      console.error("Repairing the response failed:", error);
+    }
+  }
+
+  if (!parsed) {
+    throw new Error(
+      `${generator.model} did not return a JSON array of ideas (${problems.join("; ")})`
+    );
+  }
+
+  console.log(
+    `Ideas generated successfully with ${generator.provider}/${generator.model}:`,
+    parsed.ideas
+  );
+  return {
+    ideas: parsed.ideas,
+    errors: formatItemErrors(parsed.errors),
+    response,
+  };
+}
+
+// Limits that keep the prompt inside the models' context windows: a thread
+// brings its most liked replies, long comments are cut short and threads
+// that don't fit the budget are left for a later run
+const MAX_REPLIES_PER_THREAD = 10;
+const MAX_COMMENT_LENGTH = 1000;
+const MAX_THREADS_LENGTH = 60000;
+
+function truncateComment(text: string): string {
+  return text.length > MAX_COMMENT_LENGTH
+    ? `${text.slice(0, MAX_COMMENT_LENGTH)}…`
+    : text;
+}
+
+// Loads the given threads with their replies, within the limits above. The
+// returned comment IDs are those of the threads that fit, including replies
+// that were left out, so the whole thread counts as used.
+async function loadThreads(userId: string, threadIds: string[]) {
+  const threadComments = await db
+    .select({
+      title: Videos.title,
+      comment: VideoComments.commentText,
+      video_id: Videos.id,
+      comment_id: VideoComments.id,
+      parent_id: VideoComments.parentId,
+      like_count: VideoComments.likeCount,
+      published_at: VideoComments.publishedAt,
+    })
+    .from(VideoComments)
+    .innerJoin(Videos, eq(VideoComments.videoId, Videos.id))
+    .where(
+      and(
+        eq(VideoComments.userId, userId),
+        or(
+          inArray(VideoComments.id, threadIds),
+          inArray(VideoComments.parentId, threadIds)
+        )
+      )
+    )
+    .orderBy(VideoComments.publishedAt);
+
+  const threads: CommentThread[] = [];
+  const commentIds: string[] = [];
+  let length = 0;
+
+  threadComments
+    .filter((comment) => !comment.parent_id)
+    .forEach((comment) => {
+      const replies = threadComments.filter(
+        (reply) => reply.parent_id === comment.comment_id
+      );
+      // The most liked replies, still in the order they were written
+      const keptReplies = [...replies]
+        .sort((a, b) => (b.like_count ?? 0) - (a.like_count ?? 0))
+        .slice(0, MAX_REPLIES_PER_THREAD);
+
+      const thread: CommentThread = {
+        title: comment.title,
+        comment: truncateComment(comment.comment),
+        video_id: comment.video_id,
+        comment_id: comment.comment_id,
+        replies: replies
+          .filter((reply) => keptReplies.includes(reply))
+          .map((reply) => truncateComment(reply.comment)),
+      };
+
+      const threadLength = JSON.stringify(thread).length;
+      if (threads.length > 0 && length + threadLength > MAX_THREADS_LENGTH) {
+        return;
+      }
+      length += threadLength;
+      threads.push(thread);
+      commentIds.push(
+        comment.comment_id,
+        ...replies.map((reply) => reply.comment_id)
+      );
+    });
+
+  return { threads, commentIds };
+}
+
+// A run that has been recorded but has no result yet
+export interface PendingRun {
+  id: string;
+  createdAt: Date;
+  threads: CommentThread[];
+  commentIds: string[];
+}
+
+export async function startIdeaRun(
+  userId: string,
+  threadIds: string[],
+  retryOf: string | null
+): Promise<PendingRun> {
+  const { threads, commentIds } = await loadThreads(userId, threadIds);
+
+  const [run] = await db
+    .insert(IdeaRuns)
+    .values({
+      userId,
+      promptVersion: IDEA_PROMPT_VERSION,
+      commentIds,
+      retryOf,
+    })
+    .returning({ id: IdeaRuns.id, createdAt: IdeaRuns.createdAt });
+
+  return { ...run, threads, commentIds };
+}
+
+// Picks a run back up in a later request, e.g. when its crew job finishes
+export async function loadPendingRun(
+  userId: string,
+  runId: string
+): Promise<PendingRun | null> {
+  const [run] = await db
+    .select({
+      id: IdeaRuns.id,
+      createdAt: IdeaRuns.createdAt,
+      commentIds: IdeaRuns.commentIds,
+    })
+    .from(IdeaRuns)
+    .where(
+      and(
+        eq(IdeaRuns.id, runId),
+        eq(IdeaRuns.userId, userId),
+        eq(IdeaRuns.status, "RUNNING")
+      )
+    );
+
+  if (!run) {
+    return null;
+  }
+
+  // The stored IDs include replies, which loadThreads files under their threads
+  const { threads, commentIds } = await loadThreads(userId, run.commentIds);
+  return { ...run, threads, commentIds };
+}
+
+// Gets the run's ideas from generate and stores them. The ideas, the run's
+// result and marking the comments used are written in one batch, which Neon
+// runs as a single transaction: either all of it lands or none of it. Any
+// failure is recorded on the run before being rethrown.
+export async function finishIdeaRun(
+  userId: string,
+  run: PendingRun,
+  generate: (threads: CommentThread[], trace: RunTrace) => Promise<GeneratedIdeas>
+): Promise<IdeaGenerationResult> {
+  const trace: RunTrace = {};
+  const traceColumns = () => ({
+    provider: trace.provider ?? null,
+    model: trace.model ?? null,
+    rawResponse: trace.rawResponse ?? null,
+    repairResponse: trace.repairResponse ?? null,
+    durationMs: Date.now() - run.createdAt.getTime(),
+    finishedAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  try {
+    const generated = await generate(run.threads, trace);
+    const { ideas, remapped, discarded } = matchIdeasToThreads(
+      generated.ideas,
+      run.threads
+    );
+    const { errors } = generated;
+
+    if (errors.length > 0) {
+      console.warn("Skipped invalid ideas:", errors);
+    }
+    if (remapped.length > 0) {
+      console.warn("Corrected IDs of ideas:", remapped);
+    }
+    if (discarded.length > 0) {
+      console.warn("Discarded ideas about comments that weren't sent:", discarded);
+    }
+    if (ideas.length === 0) {
+      throw new RunFailedError(
+        `The model returned no valid ideas about the sent comments (${[
+          ...errors,
+          ...discarded.map((idea) => `${idea.videoTitle}: ${idea.reason}`),
+        ].join("; ")})`,
+        { errors, discarded }
+      );
+    }
+
+    const newIdeas: InsertIdea[] = ideas.map((idea: IdeaData) => ({
+      userId,
+      runId: run.id,
+      videoId: idea.video_id,
+      commentId: idea.comment_id,
+      score: Math.round(idea.score),
+      videoTitle: idea.video_title,
+      description: idea.description,
+      research: idea.research,
+    }));
+
+    const [inserted] = await db.batch([
+      db.insert(Ideas).values(newIdeas).returning({ id: Ideas.id }),
+      // Mark every comment in the sent threads as used
+      db
+        .update(VideoComments)
+        .set({ isUsed: true, updatedAt: new Date() })
+        .where(
+          and(
+            eq(VideoComments.userId, userId),
+            inArray(VideoComments.id, run.commentIds)
+          )
+        ),
+      db
+        .update(IdeaRuns)
+        .set({
+          ...traceColumns(),
+          status: "SUCCESS",
+          ideaCount: newIdeas.length,
+          report: { errors, discarded },
+        })
+        .where(eq(IdeaRuns.id, run.id)),
+    ]);
+
+    console.log("Ideas generated and stored successfully!");
+
+    // The ideas are kept even if this fails; they stay flagged as pending
+    try {
+      await verifyIdeaResearch(
+        userId,
+        inserted.map((idea) => idea.id)
+      );
+    } catch (error) {
+      console.error("Error verifying research of new ideas:", error);
+    }
+
+    return { ideas: newIdeas.length, errors, discarded };
+  } catch (error) {
+    console.error("Error during idea generation and storage:", error);
+    await db
+      .update(IdeaRuns)
+      .set({
+        ...traceColumns(),
+        status: "FAILED",
+        report: error instanceof RunFailedError ? error.report : null,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      .where(eq(IdeaRuns.id, run.id));
+    throw error;
+  }
+}
+
+// Thread IDs of the user's latest 50 unused comments, replies counting for
+// their thread
+export async function selectUnusedThreadIds(userId: string): Promise<string[]> {
+  console.log("Fetching latest 50 unused comments for user:", userId);
+
+  // Fetch the latest 50 unused comments
+  const comments = await db
+    .select({
+      comment_id: VideoComments.id,
+      parent_id: VideoComments.parentId,
+    })
+    .from(VideoComments)
+    .innerJoin(Videos, eq(VideoComments.videoId, Videos.id))
+    .where(
+      and(
+        eq(VideoComments.userId, userId),
+        eq(VideoComments.isUsed, false),
+        // Comments on removed or private videos stay out of new runs
+        eq(Videos.availability, "available")
+      )
+    )
+    .orderBy(VideoComments.createdAt)
+    .limit(50);
+
+  console.log("Fetched comments:", comments);
+
+  if (comments.length === 0) {
+    throw new Error("No unused comments found to generate ideas");
+  }
+
+  // Replies are sent as part of their whole thread, keyed by the top-level comment
+  return Array.from(
+    new Set(comments.map((comment) => comment.parent_id ?? comment.comment_id))
+  );
+}
+
+// Thread IDs of a failed run to send again, leaving out any that another run
+// has used since or whose video has been removed or made private
+export async function selectRetryThreadIds(
+  userId: string,
+  runId: string
+): Promise<string[]> {
+  const [run] = await db
+    .select({ status: IdeaRuns.status, commentIds: IdeaRuns.commentIds })
+    .from(IdeaRuns)
+    .where(and(eq(IdeaRuns.id, runId), eq(IdeaRuns.userId, userId)));
+
+  if (!run) {
+    throw new Error("Run not found");
+  }
+  if (run.status !== "FAILED") {
+    throw new Error("Only failed runs can be retried");
+  }
+
+  const threads = await db
+    .select({ id: VideoComments.id })
+    .from(VideoComments)
+    .innerJoin(Videos, eq(VideoComments.videoId, Videos.id))
+    .where(
+      and(
+        eq(VideoComments.userId, userId),
+        inArray(VideoComments.id, run.commentIds),
+        isNull(VideoComments.parentId),
+        eq(VideoComments.isUsed, false),
+        eq(Videos.availability, "available")
+      )
+    );
+
+  if (threads.length === 0) {
+    throw new Error("The comments of this run have all been used since");
+  }
+
+  return threads.map((thread) => thread.id);
+}
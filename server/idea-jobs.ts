@@ -0,0 +1,426 @@
+import { and, asc, desc, eq, isNotNull, isNull, lt, or } from "drizzle-orm";
+import { db } from "@/server/db/drizzle";
+import {
+  CrewJob,
+  CrewJobs,
+  IdeaRunReport,
+  IdeaRunStatus,
+  IdeaRuns,
+} from "@/server/db/schema";
+import {
+  finishIdeaRun,
+  loadPendingRun,
+  selectRetryThreadIds,
+  selectUnusedThreadIds,
+  startIdeaRun,
+} from "@/server/idea-generator";
+import { formatItemErrors, parseIdeaOutput } from "@/server/idea-output";
+import { crew, Crew, CrewStatus, runLocalJob } from "@/server/crew";
+
+// Asynchronous idea generation: kickoff records a run and hands it to the
+// crew, and the crew's result is stored when it arrives through the webhook
+// or is found by polling, whichever comes first. Local jobs are run and
+// stored by a worker that leases them. Not server actions.
+
+export interface IdeaJobStatus {
+  id: string;
+  jobState: CrewJob["jobState"];
+  processed: boolean;
+  run: {
+    status: IdeaRunStatus;
+    ideaCount: number;
+    error: string | null;
+    report: IdeaRunReport | null;
+  } | null;
+}
+
+// The crew can only call back when the app's public URL is known
+function webhookUrl(): string | null {
+  const appUrl = process.env.APP_URL;
+  const secret = process.env.CREW_WEBHOOK_SECRET;
+
+  if (!appUrl || !secret) {
+    return null;
+  }
+  return `${appUrl.replace(/\/+$/, "")}/api/crew/webhook?token=${encodeURIComponent(secret)}`;
+}
+
+async function getJobStatus(
+  userId: string,
+  jobId: string
+): Promise<IdeaJobStatus | null> {
+  const [job] = await db
+    .select({
+      id: CrewJobs.id,
+      jobState: CrewJobs.jobState,
+      processed: CrewJobs.processed,
+      runStatus: IdeaRuns.status,
+      ideaCount: IdeaRuns.ideaCount,
+      error: IdeaRuns.error,
+      report: IdeaRuns.report,
+    })
+    .from(CrewJobs)
+    .leftJoin(IdeaRuns, eq(CrewJobs.runId, IdeaRuns.id))
+    .where(and(eq(CrewJobs.id, jobId), eq(CrewJobs.userId, userId)));
+
+  if (!job) {
+    return null;
+  }
+
+  return {
+    id: job.id,
+    jobState: job.jobState,
+    processed: job.processed ?? false,
+    run:
+      job.runStatus !== null
+        ? {
+            status: job.runStatus,
+            ideaCount: job.ideaCount ?? 0,
+            error: job.error,
+            report: job.report,
+          }
+        : null,
+  };
+}
+
+// A job whose crew hasn't answered by then is given up on, so a crew that
+// forgot it or can't be reached doesn't block new runs forever
+const JOB_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Fails the job if it is past its deadline. Returns whether it was.
+async function expireStaleJob(job: CrewJob): Promise<boolean> {
+  if (job.processed || Date.now() - job.createdAt.getTime() < JOB_TIMEOUT_MS) {
+    return false;
+  }
+
+  await processCrewResult(job, {
+    state: "FAILED",
+    result: null,
+    error: `The crew did not finish within ${JOB_TIMEOUT_MS / 60000} minutes`,
+  });
+  return true;
+}
+
+// The user's job that is still waiting for its result, if any
+export async function findActiveIdeaJob(
+  userId: string
+): Promise<IdeaJobStatus | null> {
+  const [job] = await db
+    .select()
+    .from(CrewJobs)
+    .where(and(eq(CrewJobs.userId, userId), eq(CrewJobs.processed, false)))
+    .orderBy(desc(CrewJobs.createdAt))
+    .limit(1);
+
+  if (!job || (await expireStaleJob(job))) {
+    return null;
+  }
+  return getJobStatus(userId, job.id);
+}
+
+// Starts a job unless one is already running, which would be sent the same
+// unused comments
+export async function startIdeaJob(
+  userId: string,
+  jobCrew: Crew = crew
+): Promise<IdeaJobStatus> {
+  const activeJob = await findActiveIdeaJob(userId);
+  if (activeJob) {
+    return activeJob;
+  }
+
+  const job = await kickoffIdeaJob(
+    userId,
+    await selectUnusedThreadIds(userId),
+    null,
+    jobCrew
+  );
+  if (job) {
+    return job;
+  }
+
+  const racingJob = await findActiveIdeaJob(userId);
+  if (!racingJob) {
+    throw new Error("Another idea run just finished. Please try again.");
+  }
+  return racingJob;
+}
+
+// Sends a failed run's threads again as a new job. Refused while a job is
+// unfinished, as both could be sent the same comments.
+export async function retryIdeaJob(
+  userId: string,
+  runId: string
+): Promise<IdeaJobStatus> {
+  const rejection =
+    "Ideas are already being generated. Retry once they're done.";
+
+  if (await findActiveIdeaJob(userId)) {
+    throw new Error(rejection);
+  }
+
+  const job = await kickoffIdeaJob(
+    userId,
+    await selectRetryThreadIds(userId, runId),
+    runId,
+    crew
+  );
+  if (!job) {
+    throw new Error(rejection);
+  }
+  return job;
+}
+
+// Records a run and its job and hands them to the crew. The job is recorded
+// before kickoff; the unique index on unprocessed jobs turns away a second
+// kickoff racing this one, in which case this returns null.
+async function kickoffIdeaJob(
+  userId: string,
+  threadIds: string[],
+  retryOf: string | null,
+  jobCrew: Crew
+): Promise<IdeaJobStatus | null> {
+  const run = await startIdeaRun(userId, threadIds, retryOf);
+
+  const [job] = await db
+    .insert(CrewJobs)
+    .values({ userId, runId: run.id, crew: jobCrew.name })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!job) {
+    // Lost the race; the run was never sent anywhere
+    await db.delete(IdeaRuns).where(eq(IdeaRuns.id, run.id));
+    return null;
+  }
+
+  let kickoffId: string;
+  try {
+    kickoffId = await jobCrew.kickoff({
+      userId,
+      threads: run.threads,
+      webhookUrl: webhookUrl(),
+    });
+  } catch (error) {
+    // Recorded on the run, where it can be retried
+    await processCrewResult(job, {
+      state: "FAILED",
+      result: null,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return (await getJobStatus(userId, job.id))!;
+  }
+
+  await db
+    .update(CrewJobs)
+    .set({ kickoffId, updatedAt: new Date() })
+    .where(eq(CrewJobs.id, job.id));
+
+  return (await getJobStatus(userId, job.id))!;
+}
+
+// How long a worker may hold a local job before another may take it over
+const WORKER_LEASE_MS = 10 * 60 * 1000;
+
+// Leaves a worker time to store the result before its request ends
+const MIN_WORKER_RUN_MS = 60_000;
+
+// Takes the lease on a local job that is waiting for a worker. Returns null
+// if it is done, isn't local or another worker holds it.
+async function claimLocalJob(
+  userId: string,
+  jobId: string
+): Promise<CrewJob | null> {
+  const now = new Date();
+  const [job] = await db
+    .update(CrewJobs)
+    .set({
+      lockedUntil: new Date(now.getTime() + WORKER_LEASE_MS),
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(CrewJobs.id, jobId),
+        eq(CrewJobs.userId, userId),
+        eq(CrewJobs.crew, "local"),
+        eq(CrewJobs.processed, false),
+        isNotNull(CrewJobs.kickoffId),
+        or(isNull(CrewJobs.lockedUntil), lt(CrewJobs.lockedUntil, now))
+      )
+    )
+    .returning();
+
+  return job ?? null;
+}
+
+// Runs a local job to the end and stores its result. Called by the worker
+// route the Ideas page calls after kickoff, and by cron for jobs whose
+// worker never came or died.
+export async function runLocalIdeaJob(
+  userId: string,
+  jobId: string
+): Promise<IdeaJobStatus | null> {
+  const job = await claimLocalJob(userId, jobId);
+
+  if (job && !(await expireStaleJob(job))) {
+    const run = await loadPendingRun(userId, job.runId);
+    await processCrewResult(
+      job,
+      run
+        ? await runLocalJob(userId, run.threads)
+        : { state: "FAILED", result: null, error: "The run was not pending" }
+    );
+  }
+
+  return getJobStatus(userId, jobId);
+}
+
+// Runs local jobs no worker has taken, oldest first, until the deadline
+export async function runPendingIdeaJobs(deadline: number): Promise<number> {
+  const now = new Date();
+  const jobs = await db
+    .select({ id: CrewJobs.id, userId: CrewJobs.userId })
+    .from(CrewJobs)
+    .where(
+      and(
+        eq(CrewJobs.crew, "local"),
+        eq(CrewJobs.processed, false),
+        isNotNull(CrewJobs.kickoffId),
+        or(isNull(CrewJobs.lockedUntil), lt(CrewJobs.lockedUntil, now))
+      )
+    )
+    .orderBy(asc(CrewJobs.createdAt));
+
+  let ran = 0;
+  for (const job of jobs) {
+    if (Date.now() + MIN_WORKER_RUN_MS > deadline) {
+      break;
+    }
+    await runLocalIdeaJob(job.userId, job.id);
+    ran++;
+  }
+
+  return ran;
+}
+
+// Stores the crew's result on the job's run. Only the call that flips
+// processed does so, which makes duplicate webhooks and a webhook racing a
+// status poll harmless. Returns whether this call processed the job.
+async function processCrewResult(
+  job: CrewJob,
+  status: CrewStatus
+): Promise<boolean> {
+  const [claimed] = await db
+    .update(CrewJobs)
+    .set({
+      processed: true,
+      jobState: status.state,
+      jobResult: status.result,
+      error: status.error,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(CrewJobs.id, job.id), eq(CrewJobs.processed, false)))
+    .returning({ id: CrewJobs.id });
+
+  if (!claimed) {
+    return false;
+  }
+
+  const run = await loadPendingRun(job.userId, job.runId);
+  if (!run) {
+    return true;
+  }
+
+  try {
+    await finishIdeaRun(job.userId, run, async (_threads, trace) => {
+      Object.assign(
+        trace,
+        status.trace ?? {
+          model: job.crew,
+          rawResponse: status.result ?? undefined,
+        }
+      );
+
+      if (status.state === "FAILED") {
+        throw new Error(status.error || "The crew failed");
+      }
+
+      const response = status.result ?? "";
+      const parsed = parseIdeaOutput(response);
+      return {
+        ideas: parsed.ideas,
+        errors: formatItemErrors(parsed.errors),
+        response,
+      };
+    });
+  } catch (error) {
+    // Already recorded on the run, where it can be retried
+    console.error(`Crew job ${job.id} failed:`, error);
+  }
+
+  return true;
+}
+
+// Polled by IdeaList. Also asks the crew, for when its webhook can't reach us.
+export async function pollIdeaJob(
+  userId: string,
+  jobId: string
+): Promise<IdeaJobStatus | null> {
+  const [job] = await db
+    .select()
+    .from(CrewJobs)
+    .where(and(eq(CrewJobs.id, jobId), eq(CrewJobs.userId, userId)));
+
+  if (!job) {
+    return null;
+  }
+
+  // Jobs without a kickoff ID are still being handed to the crew. Local jobs
+  // are finished by their worker, and jobs of a crew that is no longer
+  // configured can only time out.
+  if (
+    !job.processed &&
+    !(await expireStaleJob(job)) &&
+    job.kickoffId &&
+    job.crew === crew.name &&
+    job.crew !== "local"
+  ) {
+    try {
+      const status = await crew.status(job.kickoffId);
+      if (status.state !== "RUNNING") {
+        await processCrewResult(job, status);
+      }
+    } catch (error) {
+      console.error(`Failed to get the status of crew job ${job.id}:`, error);
+    }
+  }
+
+  return getJobStatus(userId, jobId);
+}
+
+export type CrewCallbackOutcome =
+  | "processed"
+  | "duplicate"
+  | "in_progress"
+  | "unknown_job";
+
+// Handles a result posted to the webhook. Deliveries are retried by crews,
+// so the same result may arrive more than once.
+export async function handleCrewCallback(
+  kickoffId: string,
+  status: CrewStatus
+): Promise<CrewCallbackOutcome> {
+  const [job] = await db
+    .select()
+    .from(CrewJobs)
+    .where(eq(CrewJobs.kickoffId, kickoffId));
+
+  if (!job) {
+    return "unknown_job";
+  }
+  if (status.state === "RUNNING") {
+    return "in_progress"; // Progress updates carry nothing to store
+  }
+
+  return (await processCrewResult(job, status)) ? "processed" : "duplicate";
+}
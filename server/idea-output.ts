@@ -0,0 +1,315 @@
+import { DiscardedIdea, ResearchReference } from "@/server/db/schema";
+
+// Turns a model's raw answer into ideas. Models wrap JSON in Markdown
+// fences, add a sentence before or after it, or get a field wrong, so the
+// array is dug out of the text first and then every idea is checked on its
+// own: one bad item is reported instead of failing the whole batch.
+
+export interface IdeaData {
+  video_id: string;
+  comment_id: string;
+  score: number;
+  description: string;
+  video_title: string;
+  research: ResearchReference[];
+}
+
+export interface IdeaItemError {
+  index: number; // Position in the model's array
+  message: string;
+}
+
+export interface ParsedIdeas {
+  ideas: IdeaData[];
+  errors: IdeaItemError[];
+}
+
+// The whole answer is unusable, e.g. no JSON array in it
+export class IdeaOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IdeaOutputError";
+  }
+}
+
+// Shown to the model in the prompt and when asking it to repair its answer
+export const IDEA_SCHEMA_DESCRIPTION = `a JSON array of objects, each with exactly these properties:
+   - video_id: (string) The video ID the comment came from.
+   - comment_id: (string) The comment ID of the thread.
+   - score: (number) A score between 0 and 10 representing the quality of the idea.
+   - description: (string) A short, engaging description of the video idea.
+   - video_title: (string) The original title of the video that the comment came from.
+   - research: (array of objects) Existing videos or pages that are relevant for researching this video idea, each with:
+       - url: (string) The URL.
+       - title: (string) Its title.
+       - view_count: (number) Its view count, if it is a video and you know it.
+       - channel: (string) The channel that published it, if it is a video.`;
+
+const FENCE_PATTERN = /```(?:json)?\s*([\s\S]*?)```/i;
+
+function extractJson(text: string): unknown {
+  const fenced = text.match(FENCE_PATTERN);
+  const body = (fenced ? fenced[1] : text).trim();
+
+  // Skip any preamble before the array and prose after it
+  const start = body.indexOf("[");
+  const end = body.lastIndexOf("]");
+  if (start === -1 || end < start) {
+    throw new IdeaOutputError("The response contains no JSON array");
+  }
+
+  try {
+    return JSON.parse(body.slice(start, end + 1));
+  } catch (error) {
+    throw new IdeaOutputError(
+      `The JSON array is invalid: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+function requireString(
+  item: Record<string, unknown>,
+  field: keyof IdeaData
+): string {
+  const value = item[field];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`${field} must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+function optionalString(value: unknown, field: string): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== "string") {
+    throw new Error(`${field} must be a string`);
+  }
+  return value.trim() || null;
+}
+
+// Keeps the first reference to each URL, so an idea lists a page once
+export function uniqueReferences(
+  references: ResearchReference[]
+): ResearchReference[] {
+  const seen = new Set<string>();
+  return references.filter((reference) => {
+    if (seen.has(reference.url)) {
+      return false;
+    }
+    seen.add(reference.url);
+    return true;
+  });
+}
+
+function parseResearch(value: unknown): ResearchReference[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error("research must be an array");
+  }
+
+  const fetchedAt = new Date().toISOString();
+  const references = value.map((entry, index) => {
+    // Bare URLs are accepted too, as older prompts asked for them
+    const fields: Record<string, unknown> =
+      typeof entry === "object" && entry !== null ? entry : { url: entry };
+
+    const url = fields.url;
+    if (typeof url !== "string" || !/^https?:\/\/\S+$/.test(url.trim())) {
+      throw new Error(`research[${index}].url must be an http(s) URL`);
+    }
+
+    const viewCount = fields.view_count;
+    if (
+      viewCount !== undefined &&
+      viewCount !== null &&
+      (typeof viewCount !== "number" || !Number.isInteger(viewCount) || viewCount < 0)
+    ) {
+      throw new Error(`research[${index}].view_count must be a whole number`);
+    }
+
+    return {
+      title: optionalString(fields.title, `research[${index}].title`),
+      url: url.trim(),
+      viewCount: (viewCount as number | undefined) ?? null,
+      channel: optionalString(fields.channel, `research[${index}].channel`),
+      fetchedAt,
+    };
+  });
+  return uniqueReferences(references);
+}
+
+function parseIdea(item: unknown): IdeaData {
+  if (typeof item !== "object" || item === null || Array.isArray(item)) {
+    throw new Error("must be an object");
+  }
+  const fields = item as Record<string, unknown>;
+
+  const score = fields.score;
+  if (typeof score !== "number" || !Number.isFinite(score)) {
+    throw new Error("score must be a number");
+  }
+  if (score < 0 || score > 10) {
+    throw new Error(`score must be between 0 and 10, got ${score}`);
+  }
+
+  return {
+    video_id: requireString(fields, "video_id"),
+    comment_id: requireString(fields, "comment_id"),
+    score,
+    description: requireString(fields, "description"),
+    video_title: requireString(fields, "video_title"),
+    research: parseResearch(fields.research),
+  };
+}
+
+// Throws IdeaOutputError when there is no array to read; problems with
+// individual ideas come back in errors
+export function parseIdeaOutput(text: string): ParsedIdeas {
+  const json = extractJson(text);
+  if (!Array.isArray(json)) {
+    throw new IdeaOutputError("The response is not a JSON array");
+  }
+
+  const result: ParsedIdeas = { ideas: [], errors: [] };
+  json.forEach((item, index) => {
+    try {
+      result.ideas.push(parseIdea(item));
+    } catch (error) {
+      result.errors.push({
+        index,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+  return result;
+}
+
+export function formatItemErrors(errors: IdeaItemError[]): string[] {
+  return errors.map(({ index, message }) => `Idea ${index + 1}: ${message}`);
+}
+
+export function buildRepairPrompt(output: string, problems: string[]): string {
+  return `Your previous answer could not be used:
+${problems.map((problem) => `  - ${problem}`).join("\n")}
+
+Here is your previous answer:
+${output}
+
+Return the corrected answer as ${IDEA_SCHEMA_DESCRIPTION}
+
+Return only the JSON array, without Markdown code fences, preamble or explanation.`;
+}
+
+export interface MatchedIdeas {
+  ideas: IdeaData[];
+  remapped: string[]; // What was corrected, for the log
+  discarded: DiscardedIdea[];
+}
+
+// IDs that are off by a typo or two still point at the comment. Anything
+// further away is more likely invented than mistyped.
+const MAX_ID_DISTANCE = 3;
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function normalizeId(id: string): string {
+  return id.toLowerCase().replace(/[^0-9a-z-]/g, "");
+}
+
+// The one candidate the ID exactly or nearly matches, if it is unambiguous
+function closestId(id: string, candidates: string[]): string | null {
+  const normalized = normalizeId(id);
+  const exact = candidates.find((candidate) => candidate === id);
+  if (exact) {
+    return exact;
+  }
+
+  let best: string | null = null;
+  let bestDistance = MAX_ID_DISTANCE + 1;
+  let isTied = false;
+  candidates.forEach((candidate) => {
+    const distance = editDistance(normalized, normalizeId(candidate));
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+      isTied = false;
+    } else if (distance === bestDistance) {
+      isTied = true;
+    }
+  });
+  return isTied ? null : best;
+}
+
+// Ties each idea to a thread that was actually sent, by comment ID first and
+// otherwise by a video that had a single thread in the batch. The thread's
+// IDs then replace the model's, so only real rows reach the foreign keys.
+export function matchIdeasToThreads(
+  ideas: IdeaData[],
+  threads: { video_id: string; comment_id: string }[]
+): MatchedIdeas {
+  const result: MatchedIdeas = { ideas: [], remapped: [], discarded: [] };
+  const commentIds = threads.map((thread) => thread.comment_id);
+  const videoIds = Array.from(new Set(threads.map((thread) => thread.video_id)));
+
+  ideas.forEach((idea) => {
+    const commentId = closestId(idea.comment_id, commentIds);
+    let thread = threads.find((t) => t.comment_id === commentId);
+
+    let reason = "Its comment and video IDs match no comment that was sent";
+    if (!thread) {
+      const videoId = closestId(idea.video_id, videoIds);
+      const videoThreads = threads.filter((t) => t.video_id === videoId);
+      if (videoThreads.length === 1) {
+        thread = videoThreads[0];
+      } else if (videoThreads.length > 1) {
+        reason = "Its comment ID is unknown and its video had several comments";
+      }
+    }
+
+    if (!thread) {
+      result.discarded.push({
+        description: idea.description,
+        videoTitle: idea.video_title,
+        videoId: idea.video_id,
+        commentId: idea.comment_id,
+        reason,
+      });
+      return;
+    }
+
+    if (thread.comment_id !== idea.comment_id) {
+      result.remapped.push(
+        `comment ${idea.comment_id} → ${thread.comment_id}`
+      );
+    }
+    if (thread.video_id !== idea.video_id) {
+      result.remapped.push(`video ${idea.video_id} → ${thread.video_id}`);
+    }
+    result.ideas.push({
+      ...idea,
+      video_id: thread.video_id,
+      comment_id: thread.comment_id,
+    });
+  });
+
+  return result;
+}
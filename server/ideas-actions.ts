@@ -2,146 +2,83 @@
 
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/server/db/drizzle";
-import { eq, and, desc, inArray } from "drizzle-orm"; // Import inArray
+import { eq, desc } from "drizzle-orm";
 import {
   Videos,
   VideoComments,
   Ideas,
-  InsertIdea,
   Idea,
+  IdeaRuns,
+  IdeaRunSummary,
 } from "@/server/db/schema";
 import { IdeaDetails } from "@/components/IdeaList";
-import { GoogleGenerativeAI } from "@google/generative-ai"
+import {
+  findActiveIdeaJob,
+  IdeaJobStatus,
+  retryIdeaJob,
+  startIdeaJob,
+} from "@/server/idea-jobs";
+
+// Starts generating ideas in the background; poll /api/idea-jobs/[id]
+export async function kickoffIdeaGeneration(): Promise<IdeaJobStatus> {
+  const { userId } = await auth();
 
-// Define an interface for the idea object
-interface IdeaData {
-  video_id: string;
-  comment_id: string;
-  score?: number;
-  description: string;
-  video_title: string;
-  research?: { url: string }[];
-}
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
 
-// Define a type for the research object
-interface Research {
-  url: string;
+  return startIdeaJob(userId);
 }
 
-const geminiApiKey = process.env.GEMINI_API_KEY;
-
-if (!geminiApiKey) {
-  console.warn("GEMINI_API_KEY is not set. Gemini integration will fail.");
-}
+// The job a page load should pick back up, if ideas were left generating
+export async function getActiveIdeaJob(): Promise<IdeaJobStatus | null> {
+  const { userId } = await auth();
 
-async function generateIdeasWithGemini(comments: { title: string; comment: string; video_id: string; comment_id: string }[]): Promise<IdeaData[]> {
-  if (!geminiApiKey) {
-    console.error("GEMINI_API_KEY is not set. Cannot generate ideas with Gemini.");
-    return []; // Or throw an error, depending on desired behavior
+  if (!userId) {
+    throw new Error("User not authenticated");
   }
 
-  const genAI = new GoogleGenerativeAI(geminiApiKey);
-  const model = genAI.getGenerativeModel({ model: "gemini-pro" }); // or gemini-1.5-pro if you have access
-
-  const prompt = `You are a creative content creator generating video ideas based on YouTube comments. 
-  Given a set of YouTube comments, generate creative video ideas, a short description for each idea, and identify potential research URLs related to the idea.  Each idea should be scored from 0 to 10, representing how good the idea is (10 = best).
-  Structure the output as a JSON array of objects. Each object must have the following properties:
-   - video_id: The video ID the comment came from.
-   - comment_id: The comment ID.
-   - score: (number) A score between 0 and 10 representing the quality of the idea.
-   - description: (string) A short, engaging description of the video idea.
-   - video_title: (string) The original title of the video that the comment came from.
-   - research: (array) An array of URLs that are relevant for researching this video idea.
-
-  Here are the comments: ${JSON.stringify(comments)}
-
-  IMPORTANT:
-  1. Always return the output in valid JSON format.  Do not include any other text outside the JSON array.
-  2. Only return a maximum of 5 ideas.
-  3. Ensure the video_id and comment_id exactly match the input data.
-  4. The score must be a number between 0 and 10.
-  5. Do not include any preamble or explanation text.  Only return the JSON.
-  `;
-
+  return findActiveIdeaJob(userId);
+}
 
-  try {
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
+// Starts a job that sends a failed run's comments again; poll it like a new one
+export async function retryFailedRun(runId: string): Promise<IdeaJobStatus> {
+  const { userId } = await auth();
 
-    // Try to parse the response as JSON
-    try {
-        const ideas = JSON.parse(text) as IdeaData[];
-        console.log("Ideas generated successfully:", ideas);
-        return ideas;
-    } catch (parseError) {
-        console.error("Error parsing Gemini response:", parseError);
-        console.error("Raw response from Gemini:", text); // Log the raw response for debugging.
-        throw new Error("Failed to parse Gemini response as JSON.");
-    }
-  } catch (error) {
-    console.error("Error generating ideas with Gemini:", error);
-    throw error;
+  if (!userId) {
+    throw new Error("User not authenticated");
   }
+
+  return retryIdeaJob(userId, runId);
 }
 
-export async function kickoffIdeaGeneration(): Promise<void> {
+// Run history without the raw model responses, newest first
+export async function getIdeaRuns(): Promise<IdeaRunSummary[]> {
   const { userId } = await auth();
 
   if (!userId) {
     throw new Error("User not authenticated");
   }
 
-  console.log("Fetching latest 50 unused comments for user:", userId);
-
-  // Fetch the latest 50 unused comments
-  const comments = await db
+  return db
     .select({
-      title: Videos.title,
-      comment: VideoComments.commentText,
-      video_id: Videos.id,
-      comment_id: VideoComments.id,
+      id: IdeaRuns.id,
+      status: IdeaRuns.status,
+      provider: IdeaRuns.provider,
+      model: IdeaRuns.model,
+      promptVersion: IdeaRuns.promptVersion,
+      commentIds: IdeaRuns.commentIds,
+      ideaCount: IdeaRuns.ideaCount,
+      report: IdeaRuns.report,
+      error: IdeaRuns.error,
+      durationMs: IdeaRuns.durationMs,
+      retryOf: IdeaRuns.retryOf,
+      createdAt: IdeaRuns.createdAt,
     })
-    .from(VideoComments)
-    .innerJoin(Videos, eq(VideoComments.videoId, Videos.id))
-    .where(and(eq(VideoComments.userId, userId), eq(VideoComments.isUsed, false)))
-    .orderBy(VideoComments.createdAt)
+    .from(IdeaRuns)
+    .where(eq(IdeaRuns.userId, userId))
+    .orderBy(desc(IdeaRuns.createdAt))
     .limit(50);
-
-  console.log("Fetched comments:", comments);
-
-  if (comments.length === 0) {
-    throw new Error("No unused comments found to generate ideas");
-  }
-
-  try {
-    const generatedIdeas = await generateIdeasWithGemini(comments);
-
-    // Insert generated ideas into the database
-    const newIdeas: InsertIdea[] = generatedIdeas.map((idea: IdeaData) => ({
-      userId,
-      videoId: idea.video_id,
-      commentId: idea.comment_id,
-      score: idea.score || 0,
-      videoTitle: idea.video_title,
-      description: idea.description,
-      research: idea.research ? idea.research.map((r: Research) => r.url) : [],
-    }));
-
-    await db.insert(Ideas).values(newIdeas);
-
-    // Mark comments as used
-    const usedCommentIds = comments.map((comment) => comment.comment_id);
-    await db
-      .update(VideoComments)
-      .set({ isUsed: true, updatedAt: new Date() })
-      .where(and(eq(VideoComments.userId, userId), inArray(VideoComments.id, usedCommentIds)));
-
-    console.log("Ideas generated and stored successfully!");
-  } catch (error) {
-    console.error("Error during idea generation and storage:", error);
-    throw error;
-  }
 }
 
 export async function getNewIdeas(): Promise<Idea[]> {
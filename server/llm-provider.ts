@@ -0,0 +1,167 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { LlmChoice, LlmProvider } from "@/server/db/schema";
+
+// The language models ideas can be generated with. Generators only turn a
+// prompt into raw text; parsing and storing the ideas stays with the caller.
+
+// A top-level comment sent together with the replies in its thread
+export interface CommentThread {
+  title: string;
+  comment: string;
+  video_id: string;
+  comment_id: string;
+  replies: string[];
+}
+
+export interface IdeaPrompt {
+  text: string;
+  threads: CommentThread[]; // What the prompt was built from
+}
+
+export interface IdeaGenerator {
+  provider: LlmProvider;
+  model: string;
+  generate(prompt: IdeaPrompt): Promise<string>;
+}
+
+export const LLM_PROVIDERS: LlmProvider[] = ["gemini", "openai", "mock"];
+
+export const DEFAULT_MODELS: Record<LlmProvider, string> = {
+  gemini: process.env.GEMINI_MODEL || "gemini-pro",
+  openai: process.env.OPENAI_MODEL || "gpt-4o-mini",
+  mock: "mock",
+};
+
+// Local models can take a while on modest hardware
+const REQUEST_TIMEOUT_MS = 120000;
+
+export function createGeminiGenerator(
+  apiKey: string | undefined,
+  model: string
+): IdeaGenerator {
+  return {
+    provider: "gemini",
+    model,
+    async generate(prompt) {
+      if (!apiKey) {
+        throw new Error("GEMINI_API_KEY is not set");
+      }
+
+      const genAI = new GoogleGenerativeAI(apiKey);
+      const result = await genAI
+        .getGenerativeModel({ model })
+        .generateContent(prompt.text);
+      return result.response.text();
+    },
+  };
+}
+
+// Chat completions from OpenAI or anything speaking its API, e.g.
+// http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for
+// llama.cpp's server. Local servers usually need no API key.
+export function createOpenAiCompatibleGenerator(
+  baseUrl: string,
+  apiKey: string | undefined,
+  model: string
+): IdeaGenerator {
+  return {
+    provider: "openai",
+    model,
+    async generate(prompt) {
+      const response = await fetch(
+        `${baseUrl.replace(/\/+$/, "")}/chat/completions`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+          },
+          body: JSON.stringify({
+            model,
+            messages: [{ role: "user", content: prompt.text }],
+          }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        }
+      );
+
+      if (!response.ok) {
+        const body = await response.text();
+        throw new Error(
+          `${baseUrl} responded ${response.status}: ${body.slice(0, 200)}`
+        );
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== "string") {
+        throw new Error(`${baseUrl} returned no completion`);
+      }
+      return content;
+    },
+  };
+}
+
+// Builds ideas straight from the threads without calling a model, so the
+// same comments always give the same output
+export function createMockGenerator(): IdeaGenerator {
+  return {
+    provider: "mock",
+    model: DEFAULT_MODELS.mock,
+    async generate(prompt) {
+      const ideas = prompt.threads.slice(0, 5).map((thread) => ({
+        video_id: thread.video_id,
+        comment_id: thread.comment_id,
+        score: Math.min(10, 5 + thread.replies.length),
+        description: `A video answering: ${thread.comment.slice(0, 120)}`,
+        video_title: thread.title,
+        research: [],
+      }));
+      return JSON.stringify(ideas);
+    },
+  };
+}
+
+export function createIdeaGenerator(choice: LlmChoice): IdeaGenerator {
+  const model = choice.model || DEFAULT_MODELS[choice.provider];
+
+  switch (choice.provider) {
+    case "gemini":
+      return createGeminiGenerator(process.env.GEMINI_API_KEY, model);
+    case "openai":
+      return createOpenAiCompatibleGenerator(
+        process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+        process.env.OPENAI_API_KEY,
+        model
+      );
+    case "mock":
+      return createMockGenerator();
+  }
+}
+
+// Tries each generator in turn until one answers. Only when all of them
+// fail is an error thrown, listing why each one did.
+export async function generateWithFallback(
+  generators: IdeaGenerator[],
+  prompt: IdeaPrompt
+): Promise<{ output: string; generator: IdeaGenerator }> {
+  const failures: string[] = [];
+
+  for (const generator of generators) {
+    try {
+      const output = await generator.generate(prompt);
+      return { output, generator };
+    } catch (error) {
+      console.error(
+        `Idea generation with ${generator.provider}/${generator.model} failed:`,
+        error
+      );
+      failures.push(
+        `${generator.provider}/${generator.model}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  throw new Error(`All idea generators failed (${failures.join("; ")})`);
+}
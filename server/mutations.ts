@@ -1,12 +1,31 @@
 "use server";
 
 import { auth } from "@clerk/nextjs/server";
-import { YouTubeChannels, YouTubeChannelType } from "./db/schema";
+import {
+  CommentPolicy,
+  ScheduleFrequency,
+  LlmChoice,
+  LlmSettings,
+  UserSettings,
+  YouTubeChannels,
+  YouTubeChannelType,
+} from "./db/schema";
 import { db } from "./db/drizzle";
 import { and, eq } from "drizzle-orm";
+import {
+  parseChannelInput,
+  parsePlaylistInput,
+  resolveChannelExactly,
+  resolvePlaylist,
+  toChannelMetadata,
+} from "./channel-resolver";
+import { DEFAULT_SEARCH_WINDOW_DAYS } from "./scraper";
+import { CommentImportResult, importComments } from "./comment-import";
 
+// Accepts a channel ID, @handle or channel URL and saves the exact channel
+// it resolves to. Plain names must be picked via lookupChannel first.
 export const addChannelForUser = async (
-  name: string
+  input: string
 ): Promise<YouTubeChannelType> => {
   const { userId } = await auth();
 
@@ -14,10 +33,38 @@ export const addChannelForUser = async (
     throw new Error("User not authenticated");
   }
 
+  const parsedInput = parseChannelInput(input);
+
+  if (parsedInput.kind === "name") {
+    throw new Error("Pick a channel from the search results to add it");
+  }
+
+  const channel = await resolveChannelExactly(parsedInput);
+
+  if (!channel) {
+    throw new Error(`No YouTube channel found for ${input}`);
+  }
+
+  const existingChannels = await db
+    .select({ id: YouTubeChannels.id })
+    .from(YouTubeChannels)
+    .where(
+      and(
+        eq(YouTubeChannels.userId, userId),
+        eq(YouTubeChannels.channelId, channel.channelId)
+      )
+    )
+    .limit(1);
+
+  if (existingChannels.length > 0) {
+    throw new Error(`${channel.title} has already been added`);
+  }
+
   const [newChannel] = await db
     .insert(YouTubeChannels)
     .values({
-      name,
+      ...toChannelMetadata(channel),
+      channelId: channel.channelId,
       userId,
     })
     .returning();
@@ -25,6 +72,120 @@ export const addChannelForUser = async (
   return newChannel;
 };
 
+export const addPlaylistForUser = async (
+  input: string
+): Promise<YouTubeChannelType> => {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  const playlistId = parsePlaylistInput(input);
+  const playlist = playlistId ? await resolvePlaylist(playlistId) : null;
+
+  if (!playlist) {
+    throw new Error(`No YouTube playlist found for ${input}`);
+  }
+
+  const existingSources = await db
+    .select({ id: YouTubeChannels.id })
+    .from(YouTubeChannels)
+    .where(
+      and(
+        eq(YouTubeChannels.userId, userId),
+        eq(YouTubeChannels.playlistId, playlist.playlistId)
+      )
+    )
+    .limit(1);
+
+  if (existingSources.length > 0) {
+    throw new Error(`${playlist.title} has already been added`);
+  }
+
+  const [newSource] = await db
+    .insert(YouTubeChannels)
+    .values({
+      sourceType: "playlist",
+      name: playlist.title,
+      playlistId: playlist.playlistId,
+      userId,
+    })
+    .returning();
+
+  return newSource;
+};
+
+// Saves a keyword search. Each scrape searches videos published within the
+// last windowDays days.
+export const addSearchForUser = async (
+  query: string,
+  windowDays: number = DEFAULT_SEARCH_WINDOW_DAYS
+): Promise<YouTubeChannelType> => {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  const searchQuery = query.trim();
+
+  if (!searchQuery) {
+    throw new Error("Enter keywords to search for");
+  }
+
+  if (!Number.isInteger(windowDays) || windowDays < 1 || windowDays > 365) {
+    throw new Error("The search window must be between 1 and 365 days");
+  }
+
+  const existingSources = await db
+    .select({ id: YouTubeChannels.id })
+    .from(YouTubeChannels)
+    .where(
+      and(
+        eq(YouTubeChannels.userId, userId),
+        eq(YouTubeChannels.searchQuery, searchQuery)
+      )
+    )
+    .limit(1);
+
+  if (existingSources.length > 0) {
+    throw new Error(`"${searchQuery}" has already been added`);
+  }
+
+  const [newSource] = await db
+    .insert(YouTubeChannels)
+    .values({
+      sourceType: "search",
+      name: searchQuery,
+      searchQuery,
+      searchWindowDays: windowDays,
+      userId,
+    })
+    .returning();
+
+  return newSource;
+};
+
+// Imports an uploaded comment export. The form carries the file as "file".
+export const importCommentsForUser = async (
+  formData: FormData
+): Promise<CommentImportResult> => {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  const file = formData.get("file");
+
+  if (!(file instanceof File)) {
+    throw new Error("Choose a CSV or JSON file to import");
+  }
+
+  return importComments(userId, file.name, await file.text());
+};
+
 export const removeChannelForUser = async (id: string): Promise<void> => {
   const { userId } = await auth();
 
@@ -36,3 +197,109 @@ export const removeChannelForUser = async (id: string): Promise<void> => {
     .delete(YouTubeChannels)
     .where(and(eq(YouTubeChannels.id, id), eq(YouTubeChannels.userId, userId)));
 };
+
+export const updateCommentPolicyForSource = async (
+  id: string,
+  policy: CommentPolicy
+): Promise<YouTubeChannelType> => {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  if (
+    !Number.isInteger(policy.maxComments) ||
+    policy.maxComments < 1 ||
+    policy.maxComments > 1000
+  ) {
+    throw new Error("Max comments must be between 1 and 1000");
+  }
+
+  if (!["relevance", "time"].includes(policy.order)) {
+    throw new Error(`Unknown comment order: ${policy.order}`);
+  }
+
+  if (!Number.isInteger(policy.minLikes) || policy.minLikes < 0) {
+    throw new Error("Minimum likes can't be negative");
+  }
+
+  const [source] = await db
+    .update(YouTubeChannels)
+    .set({
+      maxComments: policy.maxComments,
+      commentOrder: policy.order,
+      minCommentLikes: policy.minLikes,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(YouTubeChannels.id, id), eq(YouTubeChannels.userId, userId)))
+    .returning();
+
+  if (!source) {
+    throw new Error("Source not found");
+  }
+
+  return source;
+};
+
+export const updateScheduleForUser = async (
+  scheduleFrequency: ScheduleFrequency
+): Promise<void> => {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  if (!["daily", "weekly", "off"].includes(scheduleFrequency)) {
+    throw new Error(`Unknown schedule: ${scheduleFrequency}`);
+  }
+
+  await db
+    .insert(UserSettings)
+    .values({ userId, scheduleFrequency })
+    .onConflictDoUpdate({
+      target: UserSettings.userId,
+      set: { scheduleFrequency, updatedAt: new Date() },
+    });
+};
+
+export const updateLlmSettingsForUser = async (
+  settings: LlmSettings
+): Promise<LlmSettings> => {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  const normalize = ({ provider, model }: LlmChoice): LlmChoice => {
+    if (!["gemini", "openai", "mock"].includes(provider)) {
+      throw new Error(`Unknown model provider: ${provider}`);
+    }
+    return { provider, model: model?.trim() || null };
+  };
+
+  const primary = normalize(settings);
+  const fallbacks = settings.fallbacks.map(normalize);
+
+  await db
+    .insert(UserSettings)
+    .values({
+      userId,
+      llmProvider: primary.provider,
+      llmModel: primary.model,
+      llmFallbacks: fallbacks,
+    })
+    .onConflictDoUpdate({
+      target: UserSettings.userId,
+      set: {
+        llmProvider: primary.provider,
+        llmModel: primary.model,
+        llmFallbacks: fallbacks,
+        updatedAt: new Date(),
+      },
+    });
+
+  return { ...primary, fallbacks };
+};
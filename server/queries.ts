@@ -4,6 +4,13 @@ import { auth } from "@clerk/nextjs/server";
 import {
   Idea,
   Ideas,
+  ScrapeJob,
+  ScrapeJobs,
+  UserSettings,
+  ScheduleFrequency,
+  LlmSettings,
+  VideoStatsSnapshot,
+  VideoStatsSnapshots,
   Video,
   VideoComments,
   Videos,
@@ -11,7 +18,20 @@ import {
   YouTubeChannelType,
 } from "./db/schema";
 import { db } from "./db/drizzle";
-import { eq, and, desc } from "drizzle-orm";
+import { DAILY_QUOTA, getRemainingQuota } from "./youtube-client";
+import {
+  eq,
+  and,
+  desc,
+  count,
+  max,
+  sum,
+  countDistinct,
+  isNotNull,
+  inArray,
+  gt,
+  sql,
+} from "drizzle-orm";
 
 export const getVideosForUser = async (): Promise<Video[]> => {
   const { userId } = await auth();
@@ -68,6 +88,83 @@ export const getVideoWithComments = async (
   return { video, comments };
 };
 
+export const getVideoStatsHistory = async (
+  videoId: string
+): Promise<VideoStatsSnapshot[]> => {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  return db
+    .select()
+    .from(VideoStatsSnapshots)
+    .where(
+      and(
+        eq(VideoStatsSnapshots.videoId, videoId),
+        eq(VideoStatsSnapshots.userId, userId)
+      )
+    )
+    .orderBy(VideoStatsSnapshots.capturedAt);
+};
+
+// Views per day for each of the user's videos, keyed by Videos.id. Uses the
+// snapshots from the last 7 days where there are at least two, otherwise the
+// lifetime average since publishing.
+export const getVideoGrowthForUser = async (): Promise<
+  Record<string, number>
+> => {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  const recentGrowth = await db
+    .select({
+      videoId: VideoStatsSnapshots.videoId,
+      gainedViews: sql<number>`max(${VideoStatsSnapshots.viewCount}) - min(${VideoStatsSnapshots.viewCount})`.mapWith(Number),
+      days: sql<number>`extract(epoch from max(${VideoStatsSnapshots.capturedAt}) - min(${VideoStatsSnapshots.capturedAt})) / 86400`.mapWith(Number),
+    })
+    .from(VideoStatsSnapshots)
+    .where(
+      and(
+        eq(VideoStatsSnapshots.userId, userId),
+        gt(VideoStatsSnapshots.capturedAt, sql`now() - interval '7 days'`)
+      )
+    )
+    .groupBy(VideoStatsSnapshots.videoId)
+    .having(sql`count(*) > 1`);
+
+  const videos = await db
+    .select({
+      id: Videos.id,
+      viewCount: Videos.viewCount,
+      publishedAt: Videos.publishedAt,
+    })
+    .from(Videos)
+    .where(eq(Videos.userId, userId));
+
+  const growth: Record<string, number> = {};
+
+  for (const video of videos) {
+    const ageInDays = Math.max(
+      (Date.now() - video.publishedAt.getTime()) / 86400000,
+      1 / 24
+    );
+    growth[video.id] = (video.viewCount ?? 0) / ageInDays;
+  }
+
+  for (const { videoId, gainedViews, days } of recentGrowth) {
+    if (days > 0) {
+      growth[videoId] = gainedViews / days;
+    }
+  }
+
+  return growth;
+};
+
 export const getIdeasForUser = async (): Promise<Idea[]> => {
   const { userId } = await auth();
 
@@ -81,3 +178,146 @@ export const getIdeasForUser = async (): Promise<Idea[]> => {
     .where(eq(Ideas.userId, userId))
     .orderBy(desc(Ideas.createdAt));
 };
+
+export interface TopCommenter {
+  authorChannelId: string;
+  authorDisplayName: string | null;
+  authorProfileImageUrl: string | null;
+  commentCount: number;
+  videoCount: number;
+  totalLikes: number;
+  lastCommentedAt: Date | null;
+}
+
+export const getTopCommentersForChannel = async (
+  channelId: string
+): Promise<{ channelTitle: string | null; commenters: TopCommenter[] }> => {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  const [video] = await db
+    .select({ channelTitle: Videos.channelTitle })
+    .from(Videos)
+    .where(and(eq(Videos.channelId, channelId), eq(Videos.userId, userId)))
+    .limit(1);
+
+  const commenters = await db
+    .select({
+      authorChannelId: VideoComments.authorChannelId,
+      authorDisplayName: max(VideoComments.authorDisplayName),
+      authorProfileImageUrl: max(VideoComments.authorProfileImageUrl),
+      commentCount: count(VideoComments.id),
+      videoCount: countDistinct(VideoComments.videoId),
+      totalLikes: sum(VideoComments.likeCount).mapWith(Number),
+      lastCommentedAt: max(VideoComments.publishedAt),
+    })
+    .from(VideoComments)
+    .innerJoin(Videos, eq(VideoComments.videoId, Videos.id))
+    .where(
+      and(
+        eq(VideoComments.userId, userId),
+        eq(Videos.channelId, channelId),
+        isNotNull(VideoComments.authorChannelId)
+      )
+    )
+    .groupBy(VideoComments.authorChannelId)
+    .orderBy(desc(count(VideoComments.id)))
+    .limit(25);
+
+  return {
+    channelTitle: video?.channelTitle ?? null,
+    commenters: commenters.map((commenter) => ({
+      ...commenter,
+      authorChannelId: commenter.authorChannelId!,
+    })),
+  };
+};
+
+export const getQuotaStatus = async (): Promise<{
+  remaining: number;
+  limit: number;
+}> => {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  return { remaining: await getRemainingQuota(), limit: DAILY_QUOTA };
+};
+
+export const getScrapeJob = async (jobId: string): Promise<ScrapeJob | null> => {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  const [job] = await db
+    .select()
+    .from(ScrapeJobs)
+    .where(and(eq(ScrapeJobs.id, jobId), eq(ScrapeJobs.userId, userId)));
+
+  return job ?? null;
+};
+
+// The job a page load should pick back up, if a scrape was left running or
+// is paused until the quota resets
+export const getActiveScrapeJob = async (): Promise<ScrapeJob | null> => {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  const [job] = await db
+    .select()
+    .from(ScrapeJobs)
+    .where(
+      and(
+        eq(ScrapeJobs.userId, userId),
+        inArray(ScrapeJobs.status, ["PENDING", "RUNNING", "QUOTA_EXHAUSTED"])
+      )
+    )
+    .orderBy(desc(ScrapeJobs.createdAt))
+    .limit(1);
+
+  return job ?? null;
+};
+
+export const getScheduleForUser = async (): Promise<ScheduleFrequency> => {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  const [settings] = await db
+    .select({ scheduleFrequency: UserSettings.scheduleFrequency })
+    .from(UserSettings)
+    .where(eq(UserSettings.userId, userId));
+
+  return settings?.scheduleFrequency ?? "off";
+};
+
+export const getLlmSettingsForUser = async (): Promise<LlmSettings> => {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  const [settings] = await db
+    .select({
+      provider: UserSettings.llmProvider,
+      model: UserSettings.llmModel,
+      fallbacks: UserSettings.llmFallbacks,
+    })
+    .from(UserSettings)
+    .where(eq(UserSettings.userId, userId));
+
+  return settings ?? { provider: "gemini", model: null, fallbacks: [] };
+};
@@ -0,0 +1,293 @@
+import { and, eq, ilike, inArray, ne, or } from "drizzle-orm";
+import { db } from "@/server/db/drizzle";
+import {
+  Ideas,
+  ResearchReference,
+  ResearchStatus,
+  Videos,
+} from "@/server/db/schema";
+import {
+  DAILY_QUOTA,
+  getRemainingQuota,
+  QUOTA_COSTS,
+  youtube,
+  youtubeRequest,
+} from "@/server/youtube-client";
+import { uniqueReferences } from "@/server/idea-output";
+
+// Checks the research references models give against YouTube. References to
+// real videos are kept with their current title, channel and views; when
+// some can't be confirmed, videos in our library with a similar title and
+// what a YouTube search for the idea finds take their place, so ideas show
+// the competing videos that actually exist. Not a server action.
+
+// Search results added to an idea; every search costs 100 quota units
+const SEARCH_RESULTS = 5;
+
+// Searches stop while less than this is left, so scrapes keep their quota
+const SEARCH_QUOTA_RESERVE = Math.round(DAILY_QUOTA * 0.2);
+
+// Library videos added to an idea, and how many of the idea's keywords
+// their title must share with it
+const LIBRARY_RESULTS = 3;
+const MIN_KEYWORD_MATCHES = 2;
+
+const STOP_WORDS = new Set([
+  "about", "after", "also", "been", "before", "being", "best", "could",
+  "does", "each", "from", "have", "into", "just", "make", "more", "most",
+  "only", "other", "over", "should", "some", "than", "that", "their",
+  "them", "then", "there", "these", "they", "this", "those", "through",
+  "using", "video", "videos", "what", "when", "where", "which", "while",
+  "will", "with", "would", "your",
+]);
+
+// Search queries work best short: the idea's first sentence, cut at a word
+function searchQuery(description: string): string {
+  const sentence = description.split(/[.!?]\s/)[0].trim();
+  return sentence.length > 100
+    ? sentence.slice(0, 100).replace(/\s+\S*$/, "")
+    : sentence;
+}
+
+// The distinctive words of a text, lowercased
+function keywords(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  return Array.from(
+    new Set(words.filter((word) => word.length >= 4 && !STOP_WORDS.has(word)))
+  ).slice(0, 10);
+}
+
+function toReference(video: {
+  videoId: string;
+  title: string;
+  channelTitle: string | null;
+  viewCount: number | null;
+  updatedAt: Date;
+}): ResearchReference {
+  return {
+    title: video.title,
+    url: `https://www.youtube.com/watch?v=${video.videoId}`,
+    viewCount: video.viewCount,
+    channel: video.channelTitle,
+    fetchedAt: video.updatedAt.toISOString(),
+  };
+}
+
+const libraryColumns = {
+  videoId: Videos.videoId,
+  title: Videos.title,
+  channelTitle: Videos.channelTitle,
+  viewCount: Videos.viewCount,
+  availability: Videos.availability,
+  updatedAt: Videos.updatedAt,
+};
+
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+
+// The video a YouTube URL points at, if it is one
+export function parseYouTubeVideoId(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.replace(/^(www|m)\./, "");
+  let id: string | null = null;
+  if (host === "youtu.be") {
+    id = parsed.pathname.slice(1);
+  } else if (host === "youtube.com") {
+    id =
+      parsed.searchParams.get("v") ??
+      parsed.pathname.match(/^\/(?:shorts|embed|live)\/([^/]+)/)?.[1] ??
+      null;
+  }
+
+  return id && VIDEO_ID_PATTERN.test(id) ? id : null;
+}
+
+// Looks videos up in our own library first and asks YouTube for the rest
+async function lookUpVideos(
+  userId: string,
+  videoIds: string[]
+): Promise<Map<string, ResearchReference>> {
+  const found = new Map<string, ResearchReference>();
+  if (videoIds.length === 0) {
+    return found;
+  }
+
+  const known = await db
+    .select(libraryColumns)
+    .from(Videos)
+    .where(and(eq(Videos.userId, userId), inArray(Videos.videoId, videoIds)));
+
+  known
+    .filter((video) => video.availability === "available")
+    .forEach((video) => found.set(video.videoId, toReference(video)));
+
+  const missing = videoIds.filter(
+    (id) => !known.some((video) => video.videoId === id)
+  );
+  for (let i = 0; i < missing.length; i += 50) {
+    const items = await youtubeRequest("videos.list", () =>
+      youtube.getVideos(missing.slice(i, i + 50))
+    );
+    const fetchedAt = new Date().toISOString();
+    items.forEach((item) =>
+      found.set(item.id!, {
+        title: item.snippet?.title ?? null,
+        url: `https://www.youtube.com/watch?v=${item.id}`,
+        viewCount: item.statistics?.viewCount
+          ? parseInt(item.statistics.viewCount, 10)
+          : null,
+        channel: item.snippet?.channelTitle ?? null,
+        fetchedAt,
+      })
+    );
+  }
+
+  return found;
+}
+
+// Videos in our library whose titles share the most keywords with the idea,
+// leaving out the video its comment came from
+async function matchLibraryVideos(
+  userId: string,
+  idea: { videoId: string; description: string }
+): Promise<ResearchReference[]> {
+  const words = keywords(idea.description);
+  if (words.length < MIN_KEYWORD_MATCHES) {
+    return [];
+  }
+
+  const candidates = await db
+    .select(libraryColumns)
+    .from(Videos)
+    .where(
+      and(
+        eq(Videos.userId, userId),
+        eq(Videos.availability, "available"),
+        ne(Videos.id, idea.videoId),
+        or(...words.map((word) => ilike(Videos.title, `%${word}%`)))
+      )
+    )
+    .limit(200);
+
+  return candidates
+    .map((video) => ({
+      video,
+      matches: words.filter((word) => video.title.toLowerCase().includes(word))
+        .length,
+    }))
+    .filter(({ matches }) => matches >= MIN_KEYWORD_MATCHES)
+    .sort((a, b) => b.matches - a.matches)
+    .slice(0, LIBRARY_RESULTS)
+    .map(({ video }) => toReference(video));
+}
+
+// Only references that can't be confirmed cost a search, and only while
+// the quota has room for it
+async function findReplacements(
+  userId: string,
+  idea: { videoId: string; description: string }
+): Promise<ResearchReference[]> {
+  const library = await matchLibraryVideos(userId, idea);
+
+  const remaining = await getRemainingQuota();
+  if (remaining - QUOTA_COSTS["search.list"] < SEARCH_QUOTA_RESERVE) {
+    console.warn(`Skipping research search with ${remaining} quota units left`);
+    return library;
+  }
+
+  const searched = await youtubeRequest("search.list", () =>
+    youtube.searchVideos({
+      query: searchQuery(idea.description),
+      order: "relevance",
+      maxResults: SEARCH_RESULTS,
+    })
+  );
+  const videos = await lookUpVideos(userId, searched.items);
+
+  return [
+    ...library,
+    ...(searched.items
+      .map((id) => videos.get(id))
+      .filter(Boolean) as ResearchReference[]),
+  ];
+}
+
+async function verifyIdea(
+  userId: string,
+  idea: {
+    id: string;
+    videoId: string;
+    description: string;
+    research: ResearchReference[];
+  }
+): Promise<{ research: ResearchReference[]; status: ResearchStatus }> {
+  const claimedIds = idea.research.map((reference) =>
+    parseYouTubeVideoId(reference.url)
+  );
+  const videos = await lookUpVideos(
+    userId,
+    Array.from(new Set(claimedIds.filter(Boolean) as string[]))
+  );
+
+  const confirmed = claimedIds
+    .map((id) => (id ? videos.get(id) : undefined))
+    .filter(Boolean) as ResearchReference[];
+
+  // Different links to the same video are confirmed as the same URL
+  if (idea.research.length > 0 && confirmed.length === idea.research.length) {
+    return { research: uniqueReferences(confirmed), status: "verified" };
+  }
+
+  const found = await findReplacements(userId, idea);
+  if (confirmed.length === 0 && found.length === 0) {
+    return { research: idea.research, status: "unverified" };
+  }
+
+  return {
+    research: uniqueReferences([...confirmed, ...found]),
+    status: "replaced",
+  };
+}
+
+// Verifies the research of the given ideas one by one. An idea that can't be
+// checked, e.g. because the quota ran out, is flagged unverified and keeps
+// its references; the ideas after it are still tried.
+export async function verifyIdeaResearch(
+  userId: string,
+  ideaIds: string[]
+): Promise<void> {
+  if (ideaIds.length === 0) {
+    return;
+  }
+
+  const ideas = await db
+    .select({
+      id: Ideas.id,
+      videoId: Ideas.videoId,
+      description: Ideas.description,
+      research: Ideas.research,
+    })
+    .from(Ideas)
+    .where(and(eq(Ideas.userId, userId), inArray(Ideas.id, ideaIds)));
+
+  for (const idea of ideas) {
+    let update: { research?: ResearchReference[]; researchStatus: ResearchStatus };
+    try {
+      const { research, status } = await verifyIdea(userId, idea);
+      update = { research, researchStatus: status };
+    } catch (error) {
+      console.error(`Failed to verify research of idea ${idea.id}:`, error);
+      update = { researchStatus: "unverified" };
+    }
+
+    await db
+      .update(Ideas)
+      .set({ ...update, researchCheckedAt: new Date(), updatedAt: new Date() })
+      .where(eq(Ideas.id, idea.id));
+  }
+}
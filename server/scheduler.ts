@@ -0,0 +1,168 @@
+import { db } from "@/server/db/drizzle";
+import { eq, sql } from "drizzle-orm";
+import { UserSettings } from "@/server/db/schema";
+import {
+  createScrapeJob,
+  runScrapeJob,
+  refreshVideoStatistics,
+  StatsRefreshResult,
+} from "@/server/scraper";
+import { runLocalIdeaJob, startIdeaJob } from "@/server/idea-jobs";
+import { createLocalCrew } from "@/server/crew";
+
+// Runs the scheduled scrape → stats refresh → idea generation pipeline for
+// users whose schedule is due. Called by the cron route; not a server action.
+
+// How long a user's lease outlives the run's deadline
+const LEASE_GRACE_MS = 60_000;
+
+// Time one user's pipeline needs at least, so a user isn't claimed just
+// before the deadline
+const MIN_USER_RUN_MS = 20_000;
+
+export interface ScheduledRunReport {
+  userId: string;
+  status: "complete" | "in_progress" | "failed";
+  scrape?: string; // Final scrape job status
+  stats?: StatsRefreshResult;
+  ideas?: "generated" | "no_unused_comments" | "job_in_progress";
+  error?: string;
+}
+
+// Picks the next due user and takes their lease in one statement, so
+// concurrent cron invocations never process the same user. Schedules have
+// an hour of slack so an hourly cron doesn't drift later every day.
+async function claimDueUser(deadline: number): Promise<string | null> {
+  const [settings] = await db
+    .update(UserSettings)
+    .set({
+      scheduleLockedUntil: new Date(deadline + LEASE_GRACE_MS),
+      updatedAt: new Date(),
+    })
+    .where(
+      eq(
+        UserSettings.id,
+        sql`(
+          SELECT ${UserSettings.id} FROM ${UserSettings}
+          WHERE ${UserSettings.scheduleFrequency} <> 'off'
+            AND (${UserSettings.scheduleLockedUntil} IS NULL OR ${UserSettings.scheduleLockedUntil} < now())
+            AND (
+              ${UserSettings.lastScheduledRunAt} IS NULL
+              OR ${UserSettings.lastScheduledRunAt} < now() - CASE ${UserSettings.scheduleFrequency}
+                WHEN 'daily' THEN interval '23 hours'
+                ELSE interval '167 hours'
+              END
+            )
+          ORDER BY ${UserSettings.lastScheduledRunAt} NULLS FIRST
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )`
+      )
+    )
+    .returning({ userId: UserSettings.userId });
+
+  return settings?.userId ?? null;
+}
+
+async function releaseUser(userId: string, finished: boolean) {
+  await db
+    .update(UserSettings)
+    .set({
+      scheduleLockedUntil: null,
+      ...(finished ? { lastScheduledRunAt: new Date() } : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(UserSettings.userId, userId));
+}
+
+async function runPipelineForUser(
+  userId: string,
+  deadline: number
+): Promise<ScheduledRunReport> {
+  const report: ScheduledRunReport = { userId, status: "complete" };
+
+  // Resumes a scrape left unfinished by an earlier run or by the UI
+  try {
+    const job = await createScrapeJob(userId);
+    const scrapedJob = await runScrapeJob(userId, job.id, deadline);
+    report.scrape = scrapedJob.status;
+
+    if (scrapedJob.status === "PENDING" || scrapedJob.status === "RUNNING") {
+      return { ...report, status: "in_progress" };
+    }
+  } catch (error) {
+    if (
+      !(error instanceof Error) ||
+      !error.message.includes("No channels found for the user")
+    ) {
+      throw error;
+    }
+    report.scrape = "NO_CHANNELS";
+  }
+
+  if (Date.now() > deadline) {
+    return { ...report, status: "in_progress" };
+  }
+
+  report.stats = await refreshVideoStatistics(userId);
+
+  try {
+    // Run here rather than by a worker, but as a job so it can't take the
+    // same unused comments as a job started from the Ideas page
+    const started = await startIdeaJob(userId, createLocalCrew());
+    const job = started.processed
+      ? started
+      : (await runLocalIdeaJob(userId, started.id)) ?? started;
+    if (!job.processed) {
+      report.ideas = "job_in_progress";
+      return report;
+    }
+    if (job.run?.status !== "SUCCESS") {
+      throw new Error(job.run?.error ?? "Idea generation failed");
+    }
+    report.ideas = "generated";
+  } catch (error) {
+    if (
+      !(error instanceof Error) ||
+      !error.message.includes("No unused comments found")
+    ) {
+      throw error;
+    }
+    report.ideas = "no_unused_comments";
+  }
+
+  return report;
+}
+
+export async function runDueSchedules(
+  deadline: number
+): Promise<ScheduledRunReport[]> {
+  const reports: ScheduledRunReport[] = [];
+
+  while (Date.now() + MIN_USER_RUN_MS < deadline) {
+    const userId = await claimDueUser(deadline);
+
+    if (!userId) {
+      break;
+    }
+
+    let report: ScheduledRunReport;
+    try {
+      report = await runPipelineForUser(userId, deadline);
+    } catch (error) {
+      console.error(`Scheduled run failed for user ${userId}:`, error);
+      report = {
+        userId,
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    // Unfinished users stay due and are picked up by the next invocation;
+    // failed ones wait for their next slot instead of retrying every tick.
+    await releaseUser(userId, report.status !== "in_progress");
+    reports.push(report);
+  }
+
+  return reports;
+}
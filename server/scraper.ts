@@ -0,0 +1,1177 @@
+import { db } from "@/server/db/drizzle";
+import { eq, and, or, isNull, lt, inArray, desc, max, sql } from "drizzle-orm";
+import {
+  YouTubeChannels,
+  Videos,
+  VideoComments,
+  ScrapeJobs,
+  VideoStatsSnapshots,
+  Video,
+  VideoComment,
+  YouTubeChannelType,
+  ScrapeJob,
+  ScrapeJobStatus,
+  CommentPolicy,
+} from "@/server/db/schema";
+import { PgUpdateSetSource } from "drizzle-orm/pg-core";
+import { youtube_v3 } from "googleapis";
+import {
+  youtube,
+  youtubeRequest,
+  getRemainingQuota,
+  QuotaExhaustedError,
+  QUOTA_COSTS,
+} from "@/server/youtube-client";
+import {
+  parseChannelInput,
+  resolveChannelExactly,
+  toChannelMetadata,
+} from "@/server/channel-resolver";
+import { commentHtmlToText, sanitizeCommentHtml } from "@/lib/comment-text";
+import { uploadsPlaylistId } from "@/server/youtube-provider";
+
+// Scraping and stats refresh for a given user. Not a server action module:
+// callers are responsible for authenticating the user first.
+
+// Only channels saved before additions were confirmed in SettingsModal can
+// lack a channel ID. Their name is resolved exactly where possible and falls
+// back to the top search result otherwise.
+async function getChannelId(channelName: string): Promise<string | null> {
+  try {
+    const input = parseChannelInput(channelName);
+    if (input.kind !== "name") {
+      return (await resolveChannelExactly(input))?.channelId ?? null;
+    }
+
+    const [channelId] = await youtubeRequest("search.list", () =>
+      youtube.searchChannels(channelName, 1)
+    );
+
+    return channelId ?? null;
+  } catch (error) {
+    if (error instanceof QuotaExhaustedError) throw error;
+    console.error("Error fetching channel ID:", error);
+    return null;
+  }
+}
+
+// One page of a source's listing. done is set on the last page; complete is
+// false when the listing stopped on an error, so the watermark stays put.
+interface ListingPage {
+  videoIds: string[];
+  nextPageToken?: string;
+  done: boolean;
+  complete: boolean;
+}
+
+// 50 videos for 1 unit a page. Uploads playlists are newest first, so with
+// a watermark the listing stops at the first video that isn't newer.
+async function fetchPlaylistPage(
+  playlistId: string,
+  pageToken?: string,
+  publishedAfter?: Date
+): Promise<ListingPage> {
+  try {
+    const page = await youtubeRequest("playlistItems.list", () =>
+      youtube.listPlaylistVideos(playlistId, pageToken)
+    );
+
+    const newVideos = publishedAfter
+      ? page.items.filter(
+          (video) =>
+            !video.publishedAt || new Date(video.publishedAt) > publishedAfter
+        )
+      : page.items;
+
+    return {
+      videoIds: newVideos.map((video) => video.videoId),
+      nextPageToken: page.nextPageToken,
+      done: newVideos.length < page.items.length || !page.nextPageToken,
+      complete: true,
+    };
+  } catch (error) {
+    if (error instanceof QuotaExhaustedError) throw error;
+    console.error(`Error fetching playlist ${playlistId}:`, error);
+    return { videoIds: [], done: true, complete: false };
+  }
+}
+
+// Keyword searches can match thousands of videos at 100 units per page, so
+// only the newest pages are read.
+const MAX_SEARCH_PAGES = 2;
+
+async function fetchVideosForSearch(
+  query: string,
+  publishedAfter: Date
+): Promise<{ videoIds: string[]; complete: boolean }> {
+  let allVideoIds: string[] = [];
+  let nextPageToken: string | undefined = undefined;
+  let complete = true;
+
+  for (let page = 0; page < MAX_SEARCH_PAGES; page++) {
+    try {
+      const result = await youtubeRequest("search.list", () =>
+        youtube.searchVideos({
+          query,
+          maxResults: 50,
+          pageToken: nextPageToken,
+          publishedAfter,
+        })
+      );
+
+      allVideoIds = allVideoIds.concat(result.items);
+      nextPageToken = result.nextPageToken;
+    } catch (error) {
+      if (error instanceof QuotaExhaustedError) throw error;
+      console.error(`Error searching YouTube for "${query}":`, error);
+      complete = false;
+      break;
+    }
+
+    if (!nextPageToken) {
+      break;
+    }
+  }
+
+  return { videoIds: allVideoIds, complete };
+}
+
+// One videos.list call for up to 50 IDs. Unlike fetchVideoDetails this
+// throws when the call fails, so callers can tell a failed batch from videos
+// that no longer exist.
+async function fetchVideoDetailsBatch(
+  videoIdBatch: string[]
+): Promise<YouTubeVideo[]> {
+  const items = await youtubeRequest("videos.list", () =>
+    youtube.getVideos(videoIdBatch)
+  );
+
+  return items.map((item) => ({
+    id: { videoId: item.id! },
+    snippet: item.snippet!,
+    statistics: item.statistics!,
+    contentDetails: item.contentDetails ?? undefined,
+    topicDetails: item.topicDetails ?? undefined,
+  }));
+}
+
+async function fetchVideoDetails(videoIds: string[]): Promise<YouTubeVideo[]> {
+  if (!videoIds || videoIds.length === 0) {
+      return [];
+  }
+
+  const validVideoIds = videoIds.filter(videoId => /^[a-zA-Z0-9_-]{11}$/.test(videoId)); // Validate IDs
+
+  if (validVideoIds.length === 0) {
+      return [];
+  }
+
+  const batchSize = 50; // The most IDs videos.list accepts per call
+  const allVideoDetails: YouTubeVideo[] = [];
+
+  for (let i = 0; i < validVideoIds.length; i += batchSize) {
+      const videoIdBatch = validVideoIds.slice(i, i + batchSize);
+
+      try {
+          const items = await fetchVideoDetailsBatch(videoIdBatch);
+          if (items.length > 0) {
+              allVideoDetails.push(...items);
+          } else {
+              console.warn("No video items returned from YouTube API for batch:", videoIdBatch);
+          }
+      } catch (error) {
+          // Quota and transient errors are handled by youtubeRequest; a
+          // batch that still fails is skipped.
+          if (error instanceof QuotaExhaustedError) throw error;
+          console.error("Error fetching video details for batch:", videoIdBatch, error);
+      }
+  }
+
+  return allVideoDetails;
+}
+
+// With a like threshold most pages of a busy video can be filtered out, so
+// stop paging after this many even if the limit wasn't reached.
+const MAX_COMMENT_PAGES = 10;
+
+function getCommentPolicy(source: YouTubeChannelType): CommentPolicy {
+  return {
+    maxComments: source.maxComments,
+    order: source.commentOrder,
+    minLikes: source.minCommentLikes,
+  };
+}
+
+// Fetches up to policy.maxComments top-level comments with at least
+// policy.minLikes likes, plus their replies.
+async function fetchVideoComments(
+  videoId: string,
+  policy: CommentPolicy
+): Promise<YouTubeComment[]> {
+  let allComments: YouTubeComment[] = [];
+  let nextPageToken: string | undefined = undefined;
+  let pages = 0;
+
+  do {
+    try {
+      const data = await youtubeRequest("commentThreads.list", () =>
+        youtube.listCommentThreads(videoId, policy.order, nextPageToken)
+      );
+      pages++;
+
+      const comments =
+        data.items.map((item) => ({
+          id: item.id!,
+          snippet: item.snippet!.topLevelComment!.snippet!,
+          totalReplyCount: item.snippet!.totalReplyCount || 0,
+          replies:
+            item.replies?.comments?.map((reply) => ({
+              id: reply.id!,
+              snippet: reply.snippet!,
+            })) || [],
+        }))
+        .filter((comment) => (comment.snippet.likeCount ?? 0) >= policy.minLikes);
+      allComments = allComments.concat(comments);
+
+      if (allComments.length >= policy.maxComments) {
+        allComments = allComments.slice(0, policy.maxComments);
+        break;
+      }
+
+      nextPageToken =
+        pages < MAX_COMMENT_PAGES ? data.nextPageToken : undefined;
+    } catch (error) {
+      if (error instanceof QuotaExhaustedError) throw error;
+      console.error(`Error fetching comments for video ${videoId}:`, error);
+      break;
+    }
+  } while (nextPageToken);
+
+  // The thread response only embeds a handful of replies, so page through
+  // the rest for threads that have more.
+  for (const comment of allComments) {
+    if (comment.totalReplyCount > comment.replies.length) {
+      comment.replies = await fetchCommentReplies(comment.id);
+    }
+  }
+
+  return allComments;
+}
+
+async function fetchCommentReplies(
+  parentId: string
+): Promise<YouTubeCommentReply[]> {
+  let allReplies: YouTubeCommentReply[] = [];
+  let nextPageToken: string | undefined = undefined;
+
+  do {
+    try {
+      const data = await youtubeRequest("comments.list", () =>
+        youtube.listCommentReplies(parentId, nextPageToken)
+      );
+
+      const replies = data.items.map((item) => ({
+        id: item.id!,
+        snippet: item.snippet!,
+      }));
+      allReplies = allReplies.concat(replies);
+
+      // Stop fetching if we have reached 100 replies
+      if (allReplies.length >= 100) {
+        allReplies = allReplies.slice(0, 100);
+        break;
+      }
+
+      nextPageToken = data.nextPageToken;
+    } catch (error) {
+      if (error instanceof QuotaExhaustedError) throw error;
+      console.error(`Error fetching replies for comment ${parentId}:`, error);
+      break;
+    }
+  } while (nextPageToken);
+
+  return allReplies;
+}
+
+interface YouTubeVideo {
+  id: {
+    videoId: string;
+  };
+  snippet: youtube_v3.Schema$VideoSnippet;
+  statistics: youtube_v3.Schema$VideoStatistics;
+  contentDetails?: youtube_v3.Schema$VideoContentDetails;
+  topicDetails?: youtube_v3.Schema$VideoTopicDetails;
+}
+
+interface YouTubeCommentReply {
+  id: string;
+  snippet: youtube_v3.Schema$CommentSnippet;
+}
+
+interface YouTubeComment extends YouTubeCommentReply {
+  totalReplyCount: number;
+  replies: YouTubeCommentReply[];
+}
+
+async function recordStatsSnapshot(
+  userId: string,
+  videoId: string,
+  statistics: youtube_v3.Schema$VideoStatistics
+) {
+  await db.insert(VideoStatsSnapshots).values({
+    userId,
+    videoId,
+    viewCount: parseInt(statistics.viewCount || "0", 10),
+    likeCount: parseInt(statistics.likeCount || "0", 10),
+    commentCount: parseInt(statistics.commentCount || "0", 10),
+  });
+}
+
+// Whitespace differs between exports, the API's plain and HTML forms
+function normalizeCommentText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// Comments stored without their YouTube comment ID, scraped before we kept
+// IDs or imported from an export, have no ID to conflict on. They are matched
+// by text and publish time and get the ID backfilled instead of a second copy.
+// Scraped rows hold textDisplay (moved to commentHtml by the plain text
+// migration), imported ones plain text, so both forms are compared.
+async function adoptLegacyComments(
+  userId: string,
+  videoId: string,
+  comments: YouTubeComment[]
+) {
+  const legacyComments = await db
+    .select({
+      id: VideoComments.id,
+      commentText: VideoComments.commentText,
+      commentHtml: VideoComments.commentHtml,
+      publishedAt: VideoComments.publishedAt,
+    })
+    .from(VideoComments)
+    .where(
+      and(
+        eq(VideoComments.userId, userId),
+        eq(VideoComments.videoId, videoId),
+        isNull(VideoComments.youtubeCommentId)
+      )
+    );
+
+  if (legacyComments.length === 0) {
+    return;
+  }
+
+  const unmatched = new Set(legacyComments);
+  const fetched = comments.flatMap((comment) => [comment, ...comment.replies]);
+
+  for (const comment of fetched) {
+    const publishedAt = new Date(comment.snippet.publishedAt!).getTime();
+    const texts = new Set(
+      [
+        comment.snippet.textOriginal,
+        comment.snippet.textDisplay,
+        comment.snippet.textDisplay &&
+          commentHtmlToText(comment.snippet.textDisplay),
+      ]
+        .filter(Boolean)
+        .map((text) => normalizeCommentText(text!))
+    );
+
+    const match = Array.from(unmatched).find(
+      (stored) =>
+        stored.publishedAt.getTime() === publishedAt &&
+        [
+          stored.commentText,
+          stored.commentHtml,
+          stored.commentHtml && commentHtmlToText(stored.commentHtml),
+        ].some((text) => text && texts.has(normalizeCommentText(text)))
+    );
+    if (!match) {
+      continue;
+    }
+
+    unmatched.delete(match);
+    await db
+      .update(VideoComments)
+      .set({ youtubeCommentId: comment.id, updatedAt: new Date() })
+      .where(eq(VideoComments.id, match.id));
+  }
+}
+
+async function saveComment(
+  userId: string,
+  videoId: string,
+  comment: YouTubeCommentReply,
+  thread: { parentId?: string; replyCount?: number }
+): Promise<VideoComment> {
+  const newComment = {
+    videoId,
+    userId,
+    youtubeCommentId: comment.id,
+    parentId: thread.parentId,
+    replyCount: thread.replyCount ?? 0,
+    commentText:
+      comment.snippet.textOriginal ??
+      commentHtmlToText(comment.snippet.textDisplay ?? ""),
+    commentHtml: sanitizeCommentHtml(comment.snippet.textDisplay ?? ""),
+    authorDisplayName: comment.snippet.authorDisplayName,
+    authorChannelId: comment.snippet.authorChannelId?.value,
+    authorProfileImageUrl: comment.snippet.authorProfileImageUrl,
+    likeCount: parseInt(`${comment.snippet.likeCount || "0"}`, 10),
+    dislikeCount: 0, // YouTube API doesn't provide dislike count for comments
+    publishedAt: new Date(comment.snippet.publishedAt!),
+  };
+
+  // Re-scraped comments refresh their text, counts and author; isUsed is left alone
+  const [savedComment] = await db
+    .insert(VideoComments)
+    .values(newComment)
+    .onConflictDoUpdate({
+      target: [
+        VideoComments.userId,
+        VideoComments.videoId,
+        VideoComments.youtubeCommentId,
+      ],
+      set: {
+        commentText: sql`excluded.comment_text`,
+        commentHtml: sql`excluded.comment_html`,
+        likeCount: sql`excluded.like_count`,
+        replyCount: sql`excluded.reply_count`,
+        authorDisplayName: sql`excluded.author_display_name`,
+        authorChannelId: sql`excluded.author_channel_id`,
+        authorProfileImageUrl: sql`excluded.author_profile_image_url`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+
+  return savedComment;
+}
+
+// Parses an ISO 8601 duration such as PT1H2M3S into seconds
+function parseDuration(duration: string | null | undefined): number | null {
+  const match = duration?.match(
+    /^P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/
+  );
+
+  if (!match) {
+    return null;
+  }
+
+  const [, days, hours, minutes, seconds] = match.map((part) =>
+    parseInt(part ?? "0", 10)
+  );
+  return ((days * 24 + hours) * 60 + minutes) * 60 + seconds;
+}
+
+// The API doesn't flag Shorts, so anything up to their three minute limit
+// counts as one. Live and upcoming streams report a zero duration.
+const SHORT_MAX_SECONDS = 180;
+
+function getVideoDetailsColumns(video: YouTubeVideo) {
+  const durationSeconds = parseDuration(video.contentDetails?.duration);
+
+  return {
+    durationSeconds,
+    definition: video.contentDetails?.definition ?? null,
+    hasCaptions: video.contentDetails?.caption
+      ? video.contentDetails.caption === "true"
+      : null,
+    tags: video.snippet.tags ?? [],
+    categoryId: video.snippet.categoryId ?? null,
+    topicCategories: video.topicDetails?.topicCategories ?? [],
+    isShort:
+      durationSeconds !== null &&
+      durationSeconds > 0 &&
+      durationSeconds <= SHORT_MAX_SECONDS,
+  };
+}
+
+function getBestThumbnail(
+  thumbnails: youtube_v3.Schema$ThumbnailDetails
+): string {
+  if (thumbnails.maxres) return thumbnails.maxres.url!;
+  if (thumbnails.standard) return thumbnails.standard.url!;
+  if (thumbnails.high) return thumbnails.high.url!;
+  if (thumbnails.medium) return thumbnails.medium.url!;
+  return thumbnails.default!.url!;
+}
+
+async function resolveChannelId(
+  userId: string,
+  channel: YouTubeChannelType
+): Promise<string | null> {
+  if (channel.channelId) {
+    return channel.channelId;
+  }
+
+  const channelId = await getChannelId(channel.name);
+
+  if (!channelId) {
+    console.error(`Could not find channel ID for ${channel.name}`);
+    return null;
+  }
+
+  await db
+    .update(YouTubeChannels)
+    .set({ channelId, updatedAt: new Date() })
+    .where(
+      and(
+        eq(YouTubeChannels.id, channel.id),
+        eq(YouTubeChannels.userId, userId)
+      )
+    );
+
+  return channelId;
+}
+
+// Refreshes a channel source's title, avatar and statistics. A failed
+// lookup keeps the previous values rather than stopping the scrape.
+async function syncChannelMetadata(
+  userId: string,
+  source: YouTubeChannelType,
+  channelId: string
+) {
+  try {
+    const channel = await resolveChannelExactly({ kind: "id", value: channelId });
+    if (!channel) {
+      return;
+    }
+
+    await db
+      .update(YouTubeChannels)
+      .set({ ...toChannelMetadata(channel), updatedAt: new Date() })
+      .where(
+        and(
+          eq(YouTubeChannels.id, source.id),
+          eq(YouTubeChannels.userId, userId)
+        )
+      );
+  } catch (error) {
+    if (error instanceof QuotaExhaustedError) throw error;
+    console.error(`Error syncing metadata for channel ${channelId}:`, error);
+  }
+}
+
+// Saves a video if it is new. Returns the row ID, and the video only when it
+// was inserted by this call.
+async function saveVideo(
+  userId: string,
+  sourceId: string | null,
+  video: YouTubeVideo
+): Promise<{ videoId: string; insertedVideo: Video | null }> {
+  const existingVideo = await db
+    .select()
+    .from(Videos)
+    .where(and(eq(Videos.videoId, video.id.videoId), eq(Videos.userId, userId)))
+    .limit(1);
+
+  let videoId: string;
+  let insertedVideo: Video | null = null;
+
+  if (existingVideo.length === 0) {
+    const newVideo = {
+      videoId: video.id.videoId,
+      title: video.snippet.title!,
+      description: video.snippet.description!,
+      publishedAt: new Date(video.snippet.publishedAt!),
+      thumbnailUrl: getBestThumbnail(video.snippet.thumbnails!),
+      channelId: video.snippet.channelId!,
+      channelTitle: video.snippet.channelTitle!,
+      sourceId,
+      userId,
+      viewCount: parseInt(video.statistics.viewCount || "0", 10),
+      likeCount: parseInt(video.statistics.likeCount || "0", 10),
+      dislikeCount: parseInt(video.statistics.dislikeCount || "0", 10),
+      commentCount: parseInt(video.statistics.commentCount || "0", 10),
+      ...getVideoDetailsColumns(video),
+    };
+
+    [insertedVideo] = await db.insert(Videos).values(newVideo).returning();
+    videoId = insertedVideo.id;
+    await recordStatsSnapshot(userId, videoId, video.statistics);
+  } else {
+    videoId = existingVideo[0].id;
+  }
+
+  return { videoId, insertedVideo };
+}
+
+// Saves a video if it is new and refreshes its comments. Returns the video
+// only when it was inserted by this call.
+async function saveVideoWithComments(
+  userId: string,
+  source: YouTubeChannelType,
+  video: YouTubeVideo
+): Promise<Video | null> {
+  const { videoId, insertedVideo } = await saveVideo(userId, source.id, video);
+
+  // Fetch and save comments
+  const commentPolicy = getCommentPolicy(source);
+  const comments = await fetchVideoComments(video.id.videoId, commentPolicy);
+  await adoptLegacyComments(userId, videoId, comments);
+
+  for (const comment of comments) {
+    const insertedComment = await saveComment(userId, videoId, comment, {
+      replyCount: comment.totalReplyCount,
+    });
+
+    for (const reply of comment.replies) {
+      await saveComment(userId, videoId, reply, {
+        parentId: insertedComment.id,
+      });
+    }
+  }
+
+  await db
+    .update(Videos)
+    .set({ commentPolicy, updatedAt: new Date() })
+    .where(and(eq(Videos.id, videoId), eq(Videos.userId, userId)));
+
+  return insertedVideo;
+}
+
+export const DEFAULT_SEARCH_WINDOW_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lists one page of the videos a source would bring in, or null when a
+// channel source can't be resolved. Channels are listed through their
+// uploads playlist. Playlists are listed in full, since their items aren't
+// ordered by date, and videos we already have are skipped afterwards.
+async function listSourcePage(
+  userId: string,
+  source: YouTubeChannelType,
+  fullBackfill: boolean,
+  pageToken?: string
+): Promise<ListingPage | null> {
+  const remainingQuota = await getRemainingQuota();
+  const listingCost =
+    source.sourceType === "search"
+      ? QUOTA_COSTS["search.list"]
+      : QUOTA_COSTS["playlistItems.list"];
+  if (remainingQuota < listingCost) {
+    throw new QuotaExhaustedError(remainingQuota);
+  }
+
+  const watermark = fullBackfill
+    ? undefined
+    : source.lastVideoPublishedAt ?? undefined;
+
+  switch (source.sourceType) {
+    case "channel": {
+      // Resolved with the first page; later pages reuse the stored ID
+      if (!pageToken) {
+        const channelId = await resolveChannelId(userId, source);
+        if (!channelId) {
+          return null;
+        }
+        source.channelId = channelId;
+        await syncChannelMetadata(userId, source, channelId);
+      }
+      if (!source.channelId) {
+        return null;
+      }
+      return fetchPlaylistPage(
+        uploadsPlaylistId(source.channelId),
+        pageToken,
+        watermark
+      );
+    }
+    case "playlist": {
+      if (!source.playlistId) {
+        return null;
+      }
+      const page = await fetchPlaylistPage(source.playlistId, pageToken);
+      if (fullBackfill || page.videoIds.length === 0) {
+        return page;
+      }
+
+      const storedVideos = await db
+        .select({ videoId: Videos.videoId })
+        .from(Videos)
+        .where(
+          and(eq(Videos.userId, userId), inArray(Videos.videoId, page.videoIds))
+        );
+      const stored = new Set(storedVideos.map((video) => video.videoId));
+      return {
+        ...page,
+        videoIds: page.videoIds.filter((videoId) => !stored.has(videoId)),
+      };
+    }
+    case "search": {
+      if (!source.searchQuery) {
+        return null;
+      }
+      const windowStart = new Date(
+        Date.now() -
+          (source.searchWindowDays ?? DEFAULT_SEARCH_WINDOW_DAYS) * DAY_MS
+      );
+      const publishedAfter =
+        watermark && watermark > windowStart ? watermark : windowStart;
+      // Searches are capped at a few pages, so they are listed in one go
+      const listing = await fetchVideosForSearch(
+        source.searchQuery,
+        publishedAfter
+      );
+      return { ...listing, done: true };
+    }
+  }
+}
+
+// Only move the watermark forward once the listing finished, otherwise
+// older videos we never reached would be skipped on the next run. Playlists
+// are always listed in full and have no watermark.
+async function advanceChannelWatermark(
+  userId: string,
+  channel: YouTubeChannelType,
+  listingComplete: boolean
+) {
+  let lastVideoPublishedAt = channel.lastVideoPublishedAt;
+
+  const sourceFilter =
+    channel.sourceType === "channel" && channel.channelId
+      ? eq(Videos.channelId, channel.channelId)
+      : channel.sourceType === "search"
+        ? eq(Videos.sourceId, channel.id)
+        : null;
+
+  if (listingComplete && sourceFilter) {
+    const [newest] = await db
+      .select({ publishedAt: max(Videos.publishedAt) })
+      .from(Videos)
+      .where(and(sourceFilter, eq(Videos.userId, userId)));
+    lastVideoPublishedAt = newest?.publishedAt ?? lastVideoPublishedAt;
+  }
+
+  await db
+    .update(YouTubeChannels)
+    .set({ lastVideoPublishedAt, lastScrapedAt: new Date(), updatedAt: new Date() })
+    .where(
+      and(
+        eq(YouTubeChannels.id, channel.id),
+        eq(YouTubeChannels.userId, userId)
+      )
+    );
+}
+
+// How long a lease outlives its slice's deadline, so a slice that is still
+// writing its last progress isn't joined by another
+const LEASE_GRACE_MS = 25_000;
+
+const UNFINISHED_JOB_STATUSES: ScrapeJobStatus[] = [
+  "PENDING",
+  "RUNNING",
+  "QUOTA_EXHAUSTED",
+];
+
+// Takes the job's lease so that no two slices run the same job at once.
+// Returns null if another slice holds it.
+async function claimScrapeJob(
+  userId: string,
+  jobId: string,
+  deadline: number
+): Promise<ScrapeJob | null> {
+  const now = new Date();
+  const [job] = await db
+    .update(ScrapeJobs)
+    .set({
+      status: "RUNNING",
+      error: null,
+      lockedUntil: new Date(deadline + LEASE_GRACE_MS),
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(ScrapeJobs.id, jobId),
+        eq(ScrapeJobs.userId, userId),
+        inArray(ScrapeJobs.status, UNFINISHED_JOB_STATUSES),
+        or(isNull(ScrapeJobs.lockedUntil), lt(ScrapeJobs.lockedUntil, now))
+      )
+    )
+    .returning();
+
+  return job ?? null;
+}
+
+async function updateScrapeJob(
+  jobId: string,
+  values: PgUpdateSetSource<typeof ScrapeJobs>
+): Promise<ScrapeJob> {
+  const [job] = await db
+    .update(ScrapeJobs)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(ScrapeJobs.id, jobId))
+    .returning();
+
+  return job;
+}
+
+// Runs the job until it finishes or the deadline passes. Progress is written
+// after every listing page and every video, so a slice that dies mid-way
+// loses at most one of either.
+async function runScrapeJobSlice(
+  userId: string,
+  job: ScrapeJob,
+  deadline: number
+): Promise<ScrapeJob> {
+  const channels = await db
+    .select()
+    .from(YouTubeChannels)
+    .where(
+      and(
+        eq(YouTubeChannels.userId, userId),
+        inArray(YouTubeChannels.id, job.channelIds)
+      )
+    );
+
+  for (const channelRowId of job.channelIds) {
+    if (job.completedChannelIds.includes(channelRowId)) {
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      return job;
+    }
+
+    const channel = channels.find((c) => c.id === channelRowId);
+
+    if (channel && job.currentChannelId !== channel.id) {
+      job = await updateScrapeJob(job.id, {
+        currentChannelId: channel.id,
+        currentVideoIds: [],
+        currentListingComplete: true,
+        currentListingDone: false,
+        listingPageToken: null,
+        processedVideoIds: [],
+      });
+    }
+
+    // The listing is saved page by page, so a slice that runs out of time
+    // or quota doesn't pay for the same pages again
+    let listing: ListingPage | null | undefined;
+    while (channel && !job.currentListingDone) {
+      if (Date.now() > deadline) {
+        return job;
+      }
+
+      listing = await listSourcePage(
+        userId,
+        channel,
+        job.fullBackfill,
+        job.listingPageToken ?? undefined
+      );
+      if (listing === null) {
+        break;
+      }
+
+      const newVideoIds = listing.videoIds.filter(
+        (videoId) => !job.currentVideoIds.includes(videoId)
+      );
+      job = await updateScrapeJob(job.id, {
+        currentVideoIds: [...job.currentVideoIds, ...newVideoIds],
+        currentListingComplete: job.currentListingComplete && listing.complete,
+        currentListingDone: listing.done,
+        listingPageToken: listing.nextPageToken ?? null,
+        totalVideos: job.totalVideos + newVideoIds.length,
+      });
+    }
+
+    // Sources removed since the job started, or that can't be found, are skipped
+    if (!channel || listing === null) {
+      job = await updateScrapeJob(job.id, {
+        completedChannelIds: sql`array_append(${ScrapeJobs.completedChannelIds}, ${channelRowId})`,
+        currentChannelId: null,
+        currentVideoIds: [],
+        currentListingDone: true,
+        listingPageToken: null,
+      });
+      continue;
+    }
+
+    const remainingVideoIds = job.currentVideoIds.filter(
+      (videoId) => !job.processedVideoIds.includes(videoId)
+    );
+    const videoDetails = await fetchVideoDetails(remainingVideoIds);
+    const detailsById = new Map(
+      videoDetails.map((video) => [video.id.videoId, video])
+    );
+
+    for (const videoId of remainingVideoIds) {
+      if (Date.now() > deadline) {
+        return job;
+      }
+
+      const video = detailsById.get(videoId);
+      const insertedVideo = video
+        ? await saveVideoWithComments(userId, channel, video)
+        : null;
+
+      job = await updateScrapeJob(job.id, {
+        processedVideoIds: sql`array_append(${ScrapeJobs.processedVideoIds}, ${videoId})`,
+        processedVideos: sql`${ScrapeJobs.processedVideos} + 1`,
+        newVideos: sql`${ScrapeJobs.newVideos} + ${insertedVideo ? 1 : 0}`,
+      });
+    }
+
+    await advanceChannelWatermark(userId, channel, job.currentListingComplete);
+
+    job = await updateScrapeJob(job.id, {
+      completedChannelIds: sql`array_append(${ScrapeJobs.completedChannelIds}, ${channel.id})`,
+      currentChannelId: null,
+      currentVideoIds: [],
+      processedVideoIds: [],
+      listingPageToken: null,
+    });
+  }
+
+  return updateScrapeJob(job.id, {
+    status: "SUCCESS",
+    finishedAt: new Date(),
+  });
+}
+
+// Makes sure the user has a row for each YouTube video ID, fetching details
+// for the ones we haven't scraped. Returns row IDs by YouTube video ID;
+// videos YouTube doesn't return, or that didn't fit in today's quota, are
+// left out.
+export async function ensureVideos(
+  userId: string,
+  youtubeVideoIds: string[]
+): Promise<Map<string, string>> {
+  const rowIds = new Map<string, string>();
+
+  if (youtubeVideoIds.length === 0) {
+    return rowIds;
+  }
+
+  const existingVideos = await db
+    .select({ id: Videos.id, videoId: Videos.videoId })
+    .from(Videos)
+    .where(
+      and(eq(Videos.userId, userId), inArray(Videos.videoId, youtubeVideoIds))
+    );
+  existingVideos.forEach((video) => rowIds.set(video.videoId, video.id));
+
+  let details: YouTubeVideo[] = [];
+  try {
+    details = await fetchVideoDetails(
+      youtubeVideoIds.filter((videoId) => !rowIds.has(videoId))
+    );
+  } catch (error) {
+    if (!(error instanceof QuotaExhaustedError)) throw error;
+  }
+
+  for (const video of details) {
+    const { videoId } = await saveVideo(userId, null, video);
+    rowIds.set(video.id.videoId, videoId);
+  }
+
+  return rowIds;
+}
+
+export interface ScrapeOptions {
+  // Ignore the per-channel watermark and page through the whole history
+  fullBackfill?: boolean;
+}
+
+// Returns the user's unfinished scrape job, or creates one covering all of
+// their channels. An unfinished job is resumed rather than started over; a
+// full backfill is refused while an incremental scrape is unfinished, as
+// resuming that one wouldn't backfill anything.
+export async function createScrapeJob(
+  userId: string,
+  { fullBackfill = false }: ScrapeOptions = {}
+): Promise<ScrapeJob> {
+  const [unfinishedJob] = await db
+    .select()
+    .from(ScrapeJobs)
+    .where(
+      and(
+        eq(ScrapeJobs.userId, userId),
+        inArray(ScrapeJobs.status, UNFINISHED_JOB_STATUSES)
+      )
+    )
+    .orderBy(desc(ScrapeJobs.createdAt))
+    .limit(1);
+
+  if (unfinishedJob) {
+    if (fullBackfill && !unfinishedJob.fullBackfill) {
+      throw new Error(
+        unfinishedJob.status === "QUOTA_EXHAUSTED"
+          ? "An incremental scrape is waiting for the YouTube quota to reset. Finish it before starting a full backfill."
+          : "An incremental scrape is still running. Start the full backfill once it has finished."
+      );
+    }
+    return unfinishedJob;
+  }
+
+  const channels = await db
+    .select()
+    .from(YouTubeChannels)
+    .where(eq(YouTubeChannels.userId, userId));
+
+  if (channels.length === 0) {
+    throw new Error("No channels found for the user");
+  }
+
+  const [job] = await db
+    .insert(ScrapeJobs)
+    .values({
+      userId,
+      fullBackfill,
+      channelIds: channels.map((channel) => channel.id),
+    })
+    .returning();
+
+  return job;
+}
+
+// Runs the job until it finishes or the deadline passes and returns its
+// progress. Callers keep calling this while the job is PENDING or RUNNING.
+export async function runScrapeJob(
+  userId: string,
+  jobId: string,
+  deadline: number
+): Promise<ScrapeJob> {
+  const job = await claimScrapeJob(userId, jobId, deadline);
+
+  if (!job) {
+    // Either finished or another slice holds the lease
+    const [currentJob] = await db
+      .select()
+      .from(ScrapeJobs)
+      .where(and(eq(ScrapeJobs.id, jobId), eq(ScrapeJobs.userId, userId)));
+
+    if (!currentJob) {
+      throw new Error("Scrape job not found");
+    }
+
+    return currentJob;
+  }
+
+  try {
+    const updatedJob = await runScrapeJobSlice(userId, job, deadline);
+    return updateScrapeJob(updatedJob.id, { lockedUntil: null });
+  } catch (error) {
+    if (error instanceof QuotaExhaustedError) {
+      return updateScrapeJob(job.id, {
+        status: "QUOTA_EXHAUSTED",
+        error: error.message,
+        lockedUntil: null,
+      });
+    }
+
+    console.error("Error running scrape job:", error);
+    return updateScrapeJob(job.id, {
+      status: "FAILED",
+      error: error instanceof Error ? error.message : String(error),
+      lockedUntil: null,
+      finishedAt: new Date(),
+    });
+  }
+}
+
+export interface StatsRefreshResult {
+  status: "complete" | "quota_exhausted";
+  refreshed: number;
+  changed: number;
+  unavailable: number; // Videos newly found removed or private
+}
+
+// Refreshes the user's videos with one videos.list call per 50 videos.
+// Only rows whose counters moved are updated, but every refreshed video gets
+// a stats snapshot. Videos YouTube no longer returns are marked unavailable,
+// and marked available again if they come back.
+export async function refreshVideoStatistics(
+  userId: string
+): Promise<StatsRefreshResult> {
+  const videos = await db
+    .select()
+    .from(Videos)
+    .where(eq(Videos.userId, userId));
+
+  const videosByYouTubeId = new Map(
+    videos.map((video) => [video.videoId, video])
+  );
+  const youtubeIds = Array.from(videosByYouTubeId.keys());
+  let refreshed = 0;
+  let changed = 0;
+  let unavailable = 0;
+
+  for (let i = 0; i < youtubeIds.length; i += 50) {
+    const batchIds = youtubeIds.slice(i, i + 50);
+    let details: YouTubeVideo[];
+    try {
+      details = await fetchVideoDetailsBatch(batchIds);
+    } catch (error) {
+      if (error instanceof QuotaExhaustedError) {
+        return { status: "quota_exhausted", refreshed, changed, unavailable };
+      }
+      // A failed call says nothing about whether the videos still exist
+      console.error("Error refreshing video details for batch:", batchIds, error);
+      continue;
+    }
+
+    const returnedIds = new Set(details.map((video) => video.id.videoId));
+    const missingRowIds = batchIds
+      .filter((videoId) => !returnedIds.has(videoId))
+      .map((videoId) => videosByYouTubeId.get(videoId)!)
+      .filter((video) => video.availability === "available")
+      .map((video) => video.id);
+
+    if (missingRowIds.length > 0) {
+      await db
+        .update(Videos)
+        .set({
+          availability: "unavailable",
+          availabilityChangedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(inArray(Videos.id, missingRowIds), eq(Videos.userId, userId)));
+      unavailable += missingRowIds.length;
+    }
+
+    for (const updatedVideo of details) {
+      const video = videosByYouTubeId.get(updatedVideo.id.videoId);
+      if (!video) continue;
+
+      const counts = {
+        viewCount: parseInt(updatedVideo.statistics.viewCount || "0", 10),
+        likeCount: parseInt(updatedVideo.statistics.likeCount || "0", 10),
+        dislikeCount: parseInt(updatedVideo.statistics.dislikeCount || "0", 10),
+        commentCount: parseInt(updatedVideo.statistics.commentCount || "0", 10),
+      };
+      refreshed++;
+
+      // Videos scraped before content details were stored pick them up here
+      const details =
+        video.durationSeconds === null
+          ? getVideoDetailsColumns(updatedVideo)
+          : {};
+      const availability =
+        video.availability === "unavailable"
+          ? { availability: "available" as const, availabilityChangedAt: new Date() }
+          : {};
+
+      if (
+        video.durationSeconds === null ||
+        video.availability === "unavailable" ||
+        counts.viewCount !== video.viewCount ||
+        counts.likeCount !== video.likeCount ||
+        counts.dislikeCount !== video.dislikeCount ||
+        counts.commentCount !== video.commentCount
+      ) {
+        await db
+          .update(Videos)
+          .set({ ...counts, ...details, ...availability, updatedAt: new Date() })
+          .where(and(eq(Videos.id, video.id), eq(Videos.userId, userId)));
+        changed++;
+      }
+
+      await recordStatsSnapshot(userId, video.id, updatedVideo.statistics);
+    }
+  }
+
+  return { status: "complete", refreshed, changed, unavailable };
+}
@@ -1,319 +1,114 @@
 "use server";
 
 import { auth } from "@clerk/nextjs/server";
-import { db } from "@/server/db/drizzle";
-import { eq, and } from "drizzle-orm";
+import { ScrapeJob } from "@/server/db/schema";
 import {
-  YouTubeChannels,
-  Videos,
-  VideoComments,
-  Video,
-  VideoComment,
-} from "@/server/db/schema";
-import { google, youtube_v3 } from "googleapis";
+  ChannelCandidate,
+  PlaylistCandidate,
+  parseChannelInput,
+  parsePlaylistInput,
+  resolveChannelExactly,
+  resolvePlaylist,
+  searchChannelCandidates,
+} from "@/server/channel-resolver";
+import {
+  createScrapeJob,
+  runScrapeJob,
+  refreshVideoStatistics,
+  ScrapeOptions,
+  StatsRefreshResult,
+} from "@/server/scraper";
 
 export const maxDuration=59;
 
-const youtube = google.youtube({
-  version: "v3",
-  auth: process.env.YOUTUBE_API_KEY,
-});
+// How long one slice may run before handing back to the client, leaving
+// headroom under maxDuration for the final progress write.
+const SLICE_DURATION_MS = 45_000;
 
-async function getChannelId(channelName: string): Promise<string | null> {
-  try {
-    const response = await youtube.search.list({
-      part: ["snippet"],
-      type: ["channel"],
-      q: channelName,
-      maxResults: 1,
-    });
+// Returns the user's unfinished scrape job, or creates one covering all of
+// their channels. An unfinished job is resumed rather than started over.
+export async function startScrapeJob(
+  options: ScrapeOptions = {}
+): Promise<ScrapeJob> {
+  const { userId } = await auth();
 
-    return response.data.items?.[0]?.id?.channelId || null;
-  } catch (error) {
-    console.error("Error fetching channel ID:", error);
-    return null;
+  if (!userId) {
+    throw new Error("User not authenticated");
   }
-}
-
-async function fetchAllVideosForChannel(channelId: string): Promise<string[]> {
-  let allVideoIds: string[] = [];
-  let nextPageToken: string | undefined = undefined;
 
-  do {
-    try {
-      const response = await youtube.search.list({
-        part: ["id"],
-        channelId: channelId,
-        type: ["video"],
-        order: "date",
-        maxResults: 20,
-        pageToken: nextPageToken,
-      });
-
-      const data: youtube_v3.Schema$SearchListResponse = response.data;
-      const videoIds =
-        (data.items
-          ?.map((item) => item.id?.videoId)
-          .filter(Boolean) as string[]) || [];
-      allVideoIds = allVideoIds.concat(videoIds);
-      nextPageToken = data.nextPageToken || undefined;
-    } catch (error) {
-      console.error("Error fetching YouTube videos:", error);
-      break;
-    }
-  } while (nextPageToken);
-
-  return allVideoIds;
+  return createScrapeJob(userId, options);
 }
 
-async function fetchVideoDetails(videoIds: string[]): Promise<YouTubeVideo[]> {
-  if (!videoIds || videoIds.length === 0) {
-      return [];
-  }
-
-  const validVideoIds = videoIds.filter(videoId => /^[a-zA-Z0-9_-]{11}$/.test(videoId)); // Validate IDs
-
-  if (validVideoIds.length === 0) {
-      return [];
-  }
-
-  const batchSize = 10;
-  const allVideoDetails: YouTubeVideo[] = [];
-
-  for (let i = 0; i < validVideoIds.length; i += batchSize) {
-      const videoIdBatch = validVideoIds.slice(i, i + batchSize);
-
-      try {
-          //@ts-ignore
-          const response = await youtube.videos.list({
-              part: ["snippet", "statistics"],
-              id: videoIdBatch.join(",")
-          });
-          //@ts-ignore
-          if (response.data.items) {
-            //@ts-ignore
-              allVideoDetails.push(...response.data.items.map((item) => ({
-                  id: { videoId: item.id! },
-                  snippet: item.snippet!,
-                  statistics: item.statistics!,
-              })));
-          } else {
-              console.warn("No video items returned from YouTube API for batch:", videoIdBatch);
-          }
-      } catch (error: any) {
-          console.error("Error fetching video details for batch:", videoIdBatch, error);
-
-          // Implement retry logic with exponential backoff (example)
-          if (error.code === 403) { // Quota exceeded
-              console.warn("YouTube API Quota exceeded. Implement exponential backoff.");
-              // You'd want to implement a proper retry mechanism here.
-          }
+// Runs one time-boxed slice of the job and returns its progress. Callers
+// keep calling this while the job is PENDING or RUNNING.
+export async function advanceScrapeJob(jobId: string): Promise<ScrapeJob> {
+  const { userId } = await auth();
 
-          // Consider:  You might want to skip this batch or implement more sophisticated error handling.
-      }
+  if (!userId) {
+    throw new Error("User not authenticated");
   }
 
-  return allVideoDetails;
+  return runScrapeJob(userId, jobId, Date.now() + SLICE_DURATION_MS);
 }
 
-async function fetchVideoComments(videoId: string): Promise<YouTubeComment[]> {
-  let allComments: YouTubeComment[] = [];
-  let nextPageToken: string | undefined = undefined;
-
-  do {
-    try {
-      const response = await youtube.commentThreads.list({
-        part: ["snippet"],
-        videoId: videoId,
-        maxResults: 100,
-        pageToken: nextPageToken,
-      });
-
-      const data: youtube_v3.Schema$CommentThreadListResponse = response.data;
-      const comments =
-        data.items?.map((item) => ({
-          id: item.id!,
-          snippet: item.snippet!.topLevelComment!.snippet!,
-        })) || [];
-      allComments = allComments.concat(comments);
-
-      // Stop fetching if we have reached 100 comments
-      if (allComments.length >= 100) {
-        allComments = allComments.slice(0, 100);
-        break;
-      }
-
-      nextPageToken =
-        data.nextPageToken !== null ? data.nextPageToken : undefined;
-    } catch (error) {
-      console.error(`Error fetching comments for video ${videoId}:`, error);
-      break;
-    }
-  } while (nextPageToken);
+export type ChannelLookup =
+  | { kind: "exact"; channel: ChannelCandidate }
+  | { kind: "candidates"; candidates: ChannelCandidate[] };
 
-  return allComments;
-}
-
-interface YouTubeVideo {
-  id: {
-    videoId: string;
-  };
-  snippet: youtube_v3.Schema$VideoSnippet;
-  statistics: youtube_v3.Schema$VideoStatistics;
-}
-
-interface YouTubeComment {
-  id: string;
-  snippet: youtube_v3.Schema$CommentSnippet;
-}
-
-function getBestThumbnail(
-  thumbnails: youtube_v3.Schema$ThumbnailDetails
-): string {
-  if (thumbnails.maxres) return thumbnails.maxres.url!;
-  if (thumbnails.standard) return thumbnails.standard.url!;
-  if (thumbnails.high) return thumbnails.high.url!;
-  if (thumbnails.medium) return thumbnails.medium.url!;
-  return thumbnails.default!.url!;
-}
-
-export async function scrapeVideos() {
+// Resolves what the user typed into SettingsModal without saving anything.
+// Handles, URLs and channel IDs resolve exactly; plain names return
+// candidates to pick from.
+export async function lookupChannel(input: string): Promise<ChannelLookup> {
   const { userId } = await auth();
 
   if (!userId) {
     throw new Error("User not authenticated");
   }
 
-  const channels = await db
-    .select()
-    .from(YouTubeChannels)
-    .where(eq(YouTubeChannels.userId, userId));
+  const parsedInput = parseChannelInput(input);
 
-  if (channels.length === 0) {
-    throw new Error("No channels found for the user");
+  if (parsedInput.kind === "name") {
+    return {
+      kind: "candidates",
+      candidates: await searchChannelCandidates(parsedInput.value),
+    };
   }
 
-  const newVideos: Video[] = [];
-  const newComments: VideoComment[] = [];
-
-  for (const channel of channels) {
-    if (!channel.channelId) {
-      const channelId = await getChannelId(channel.name);
-
-      if (!channelId) {
-        console.error(`Could not find channel ID for ${channel.name}`);
-        continue;
-      }
-
-      await db
-        .update(YouTubeChannels)
-        .set({ channelId, updatedAt: new Date() })
-        .where(
-          and(
-            eq(YouTubeChannels.id, channel.id),
-            eq(YouTubeChannels.userId, userId)
-          )
-        );
+  const channel = await resolveChannelExactly(parsedInput);
 
-      channel.channelId = channelId;
-    }
-
-    const videoIds = await fetchAllVideosForChannel(channel.channelId);
-    // console.log(videoIds)
-    const videoDetails = await fetchVideoDetails(videoIds);
-
-    for (const video of videoDetails) {
-      const existingVideo = await db
-        .select()
-        .from(Videos)
-        .where(
-          and(eq(Videos.videoId, video.id.videoId), eq(Videos.userId, userId))
-        )
-        .limit(1);
+  if (!channel) {
+    throw new Error(`No YouTube channel found for ${input}`);
+  }
 
-      let videoId: string;
+  return { kind: "exact", channel };
+}
 
-      if (existingVideo.length === 0) {
-        const newVideo = {
-          videoId: video.id.videoId,
-          title: video.snippet.title!,
-          description: video.snippet.description!,
-          publishedAt: new Date(video.snippet.publishedAt!),
-          thumbnailUrl: getBestThumbnail(video.snippet.thumbnails!),
-          channelId: channel.channelId,
-          channelTitle: video.snippet.channelTitle!,
-          userId,
-          viewCount: parseInt(video.statistics.viewCount || "0", 10),
-          likeCount: parseInt(video.statistics.likeCount || "0", 10),
-          dislikeCount: parseInt(video.statistics.dislikeCount || "0", 10),
-          commentCount: parseInt(video.statistics.commentCount || "0", 10),
-        };
+// Resolves a playlist ID or URL for SettingsModal to confirm before saving
+export async function lookupPlaylist(
+  input: string
+): Promise<PlaylistCandidate> {
+  const { userId } = await auth();
 
-        const [insertedVideo] = await db
-          .insert(Videos)
-          .values(newVideo)
-          .returning();
-        newVideos.push(insertedVideo);
-        videoId = insertedVideo.id;
-      } else {
-        videoId = existingVideo[0].id;
-      }
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
 
-      // Fetch and save comments
-      const comments = await fetchVideoComments(video.id.videoId);
-      for (const comment of comments) {
-        const newComment = {
-          videoId,
-          userId,
-          commentText: comment.snippet.textDisplay!,
-          likeCount: parseInt(`${comment.snippet.likeCount || "0"}`, 10),
-          dislikeCount: 0, // YouTube API doesn't provide dislike count for comments
-          publishedAt: new Date(comment.snippet.publishedAt!),
-        };
+  const playlistId = parsePlaylistInput(input);
+  const playlist = playlistId ? await resolvePlaylist(playlistId) : null;
 
-        const [insertedComment] = await db
-          .insert(VideoComments)
-          .values(newComment)
-          .returning();
-        newComments.push(insertedComment);
-      }
-    }
+  if (!playlist) {
+    throw new Error(`No YouTube playlist found for ${input}`);
   }
 
-  return newVideos;
+  return playlist;
 }
 
-export async function updateVideoStatistics() {
+export async function updateVideoStatistics(): Promise<StatsRefreshResult> {
   const { userId } = await auth();
 
   if (!userId) {
     throw new Error("User not authenticated");
   }
 
-  const videos = await db
-    .select()
-    .from(Videos)
-    .where(eq(Videos.userId, userId));
-
-  for (const video of videos) {
-    const [updatedVideo] = await fetchVideoDetails([video.videoId]);
-    if (updatedVideo) {
-      await db
-        .update(Videos)
-        .set({
-          viewCount: parseInt(updatedVideo.statistics.viewCount || "0", 10),
-          likeCount: parseInt(updatedVideo.statistics.likeCount || "0", 10),
-          dislikeCount: parseInt(
-            updatedVideo.statistics.dislikeCount || "0",
-            10
-          ),
-          commentCount: parseInt(
-            updatedVideo.statistics.commentCount || "0",
-            10
-          ),
-          updatedAt: new Date(),
-        })
-        .where(eq(Videos.videoId, video.videoId));
-    }
-  }
-}
\ No newline at end of file
+  return refreshVideoStatistics(userId);
+}
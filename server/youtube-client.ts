@@ -0,0 +1,176 @@
+import { eq, sql } from "drizzle-orm";
+import { db } from "@/server/db/drizzle";
+import { YouTubeQuotaUsage } from "@/server/db/schema";
+import { createApiProvider, YouTubeProvider } from "@/server/youtube-provider";
+import { createFixtureProvider } from "@/server/youtube-fixtures";
+
+// YOUTUBE_PROVIDER=fixtures serves recorded JSON from YOUTUBE_FIXTURES_DIR
+// instead of calling the API, for development and CI without a key.
+export const youtube: YouTubeProvider =
+  process.env.YOUTUBE_PROVIDER === "fixtures"
+    ? createFixtureProvider(
+        process.env.YOUTUBE_FIXTURES_DIR || "fixtures/youtube"
+      )
+    : createApiProvider(process.env.YOUTUBE_API_KEY);
+
+export const DAILY_QUOTA = parseInt(
+  process.env.YOUTUBE_DAILY_QUOTA || "10000",
+  10
+);
+
+// Documented cost in quota units of each YouTube Data API call we make
+export const QUOTA_COSTS = {
+  "search.list": 100,
+  "videos.list": 1,
+  "channels.list": 1,
+  "commentThreads.list": 1,
+  "comments.list": 1,
+  "playlistItems.list": 1,
+  "playlists.list": 1,
+} as const;
+
+export type YouTubeOperation = keyof typeof QUOTA_COSTS;
+
+const MAX_RETRIES = 4;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 16000;
+
+export class QuotaExhaustedError extends Error {
+  constructor(public remaining: number) {
+    super("YouTube API quota exhausted for today");
+    this.name = "QuotaExhaustedError";
+  }
+}
+
+// YouTube resets quotas at midnight Pacific time
+function quotaDay(): string {
+  return new Date().toLocaleDateString("en-CA", {
+    timeZone: "America/Los_Angeles",
+  });
+}
+
+export async function getRemainingQuota(): Promise<number> {
+  const [usage] = await db
+    .select({ unitsUsed: YouTubeQuotaUsage.unitsUsed })
+    .from(YouTubeQuotaUsage)
+    .where(eq(YouTubeQuotaUsage.day, quotaDay()));
+
+  return Math.max(DAILY_QUOTA - (usage?.unitsUsed ?? 0), 0);
+}
+
+// Charges the ledger only if the call still fits in today's budget
+async function chargeQuota(cost: number) {
+  const [usage] = await db
+    .insert(YouTubeQuotaUsage)
+    .values({ day: quotaDay(), unitsUsed: cost })
+    .onConflictDoUpdate({
+      target: YouTubeQuotaUsage.day,
+      set: {
+        unitsUsed: sql`${YouTubeQuotaUsage.unitsUsed} + ${cost}`,
+        updatedAt: new Date(),
+      },
+      setWhere: sql`${YouTubeQuotaUsage.unitsUsed} + ${cost} <= ${DAILY_QUOTA}`,
+    })
+    .returning();
+
+  if (!usage) {
+    throw new QuotaExhaustedError(await getRemainingQuota());
+  }
+}
+
+// YouTube's own quota counter can disagree with ours, so trust it when it says no
+async function markQuotaExhausted() {
+  await db
+    .insert(YouTubeQuotaUsage)
+    .values({ day: quotaDay(), unitsUsed: DAILY_QUOTA })
+    .onConflictDoUpdate({
+      target: YouTubeQuotaUsage.day,
+      set: { unitsUsed: DAILY_QUOTA, updatedAt: new Date() },
+    });
+}
+
+interface YouTubeApiError {
+  status?: number;
+  code?: unknown; // Node's error code for network failures, e.g. ECONNRESET
+  cause?: { code?: unknown };
+  response?: {
+    status?: number;
+    data?: { error?: { errors?: { reason?: string }[] } };
+  };
+}
+
+function errorStatus(error: unknown): {
+  status?: number;
+  reason?: string;
+  code?: string;
+} {
+  const { status, code, cause, response } = (error ?? {}) as YouTubeApiError;
+  const networkCode = typeof code === "string" ? code : cause?.code;
+  return {
+    status: response?.status ?? status,
+    reason: response?.data?.error?.errors?.[0]?.reason,
+    code: typeof networkCode === "string" ? networkCode : undefined,
+  };
+}
+
+// Network failures worth another attempt; anything else without a response,
+// like a bug or an unparsable answer, would only fail again
+const TRANSIENT_NETWORK_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "ESOCKETTIMEDOUT",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+];
+
+function isTransient(status?: number, reason?: string, code?: string): boolean {
+  if (status === undefined) {
+    return code !== undefined && TRANSIENT_NETWORK_CODES.includes(code);
+  }
+  if (status >= 500 || status === 429) return true;
+  return (
+    status === 403 &&
+    (reason === "rateLimitExceeded" || reason === "userRateLimitExceeded")
+  );
+}
+
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
+  return Math.random() * ceiling;
+}
+
+// Runs one YouTube API call against the daily quota ledger, retrying
+// transient failures with jittered exponential backoff.
+export async function youtubeRequest<T>(
+  operation: YouTubeOperation,
+  request: () => Promise<T>
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    await chargeQuota(QUOTA_COSTS[operation]);
+
+    try {
+      return await request();
+    } catch (error) {
+      const { status, reason, code } = errorStatus(error);
+
+      if (status === 403 && reason === "quotaExceeded") {
+        await markQuotaExhausted();
+        throw new QuotaExhaustedError(0);
+      }
+
+      if (attempt >= MAX_RETRIES || !isTransient(status, reason, code)) {
+        throw error;
+      }
+
+      const delay = backoffDelay(attempt);
+      console.warn(
+        `YouTube ${operation} failed with ${status ?? code}, retrying in ${Math.round(delay)}ms`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
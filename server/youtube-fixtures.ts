@@ -0,0 +1,229 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { youtube_v3 } from "googleapis";
+import {
+  Page,
+  PlaylistVideo,
+  uploadsPlaylistId,
+  YouTubeProvider,
+} from "@/server/youtube-provider";
+
+// Serves YouTube data from JSON files on disk instead of the API, so the
+// scraper can run without network access or an API key. Each file holds
+// the resources of one kind, either as a plain array or as a recorded list
+// response with an `items` array:
+//
+//   channels.json        channels.list items (snippet, statistics)
+//   playlists.json       playlists.list items (snippet, contentDetails)
+//   playlistItems.json   playlistItems.list items (snippet.playlistId, contentDetails);
+//                        channels' uploads playlists come from videos.json
+//   videos.json          videos.list items (all parts)
+//   commentThreads.json  commentThreads.list items (snippet, replies)
+//   comments.json        comments.list items for replies (snippet.parentId)
+//
+// Missing files count as empty.
+
+type FixtureFile =
+  | "channels"
+  | "playlists"
+  | "playlistItems"
+  | "videos"
+  | "commentThreads"
+  | "comments";
+
+async function readFixture<T>(directory: string, file: FixtureFile): Promise<T[]> {
+  let contents: string;
+  try {
+    contents = await readFile(path.join(directory, `${file}.json`), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const data = JSON.parse(contents) as T[] | { items?: T[] };
+  return Array.isArray(data) ? data : data.items ?? [];
+}
+
+// Page tokens are offsets into the filtered fixture list
+function paginate<T>(items: T[], pageSize: number, pageToken?: string): Page<T> {
+  const start = pageToken ? parseInt(pageToken, 10) : 0;
+  const end = start + pageSize;
+
+  return {
+    items: items.slice(start, end),
+    nextPageToken: end < items.length ? String(end) : undefined,
+  };
+}
+
+function matches(text: string | null | undefined, query: string): boolean {
+  return Boolean(text?.toLowerCase().includes(query.toLowerCase()));
+}
+
+export function createFixtureProvider(directory: string): YouTubeProvider {
+  return {
+    async lookupChannels({ id, forHandle, forUsername }) {
+      const channels = await readFixture<youtube_v3.Schema$Channel>(
+        directory,
+        "channels"
+      );
+      if (id) {
+        return channels.filter((channel) => id.includes(channel.id!));
+      }
+
+      // Fixtures have no separate usernames, so both match the custom URL
+      const handle = (forHandle ?? forUsername)?.replace(/^@?/, "@").toLowerCase();
+      return channels.filter(
+        (channel) =>
+          handle !== undefined &&
+          channel.snippet?.customUrl?.toLowerCase() === handle
+      );
+    },
+
+    async searchChannels(query, maxResults) {
+      const channels = await readFixture<youtube_v3.Schema$Channel>(
+        directory,
+        "channels"
+      );
+
+      return channels
+        .filter(
+          (channel) =>
+            matches(channel.snippet?.title, query) ||
+            matches(channel.snippet?.customUrl, query)
+        )
+        .slice(0, maxResults)
+        .map((channel) => channel.id!);
+    },
+
+    async getPlaylist(playlistId) {
+      const playlists = await readFixture<youtube_v3.Schema$Playlist>(
+        directory,
+        "playlists"
+      );
+      return playlists.find((playlist) => playlist.id === playlistId) ?? null;
+    },
+
+    async searchVideos({
+      channelId,
+      query,
+      publishedAfter,
+      order = "date",
+      maxResults,
+      pageToken,
+    }) {
+      const videos = await readFixture<youtube_v3.Schema$Video>(
+        directory,
+        "videos"
+      );
+
+      const found = videos
+        .filter(
+          (video) =>
+            (!channelId || video.snippet?.channelId === channelId) &&
+            (!query ||
+              matches(video.snippet?.title, query) ||
+              matches(video.snippet?.description, query) ||
+              video.snippet?.tags?.some((tag) => matches(tag, query))) &&
+            (!publishedAfter ||
+              new Date(video.snippet!.publishedAt!) > publishedAfter)
+        )
+        // Most viewed stands in for most relevant
+        .sort((a, b) =>
+          order === "relevance"
+            ? Number(b.statistics?.viewCount ?? 0) -
+              Number(a.statistics?.viewCount ?? 0)
+            : new Date(b.snippet!.publishedAt!).getTime() -
+              new Date(a.snippet!.publishedAt!).getTime()
+        )
+        .map((video) => video.id!);
+
+      return paginate(found, maxResults, pageToken);
+    },
+
+    // Uploads playlists are made up from the channel's videos, newest first
+    async listPlaylistVideos(playlistId, pageToken) {
+      const items = await readFixture<youtube_v3.Schema$PlaylistItem>(
+        directory,
+        "playlistItems"
+      );
+      const videos = await readFixture<youtube_v3.Schema$Video>(
+        directory,
+        "videos"
+      );
+
+      const uploads: PlaylistVideo[] = videos
+        .filter(
+          (video) =>
+            video.snippet?.channelId &&
+            uploadsPlaylistId(video.snippet.channelId) === playlistId
+        )
+        .sort(
+          (a, b) =>
+            new Date(b.snippet!.publishedAt!).getTime() -
+            new Date(a.snippet!.publishedAt!).getTime()
+        )
+        .map((video) => ({
+          videoId: video.id!,
+          publishedAt: video.snippet!.publishedAt ?? undefined,
+        }));
+
+      const listed: PlaylistVideo[] = items
+        .filter(
+          (item) =>
+            item.snippet?.playlistId === playlistId && item.contentDetails?.videoId
+        )
+        .map((item) => ({
+          videoId: item.contentDetails!.videoId!,
+          publishedAt: item.contentDetails!.videoPublishedAt ?? undefined,
+        }));
+
+      return paginate(listed.length > 0 ? listed : uploads, 50, pageToken);
+    },
+
+    async getVideos(videoIds) {
+      const videos = await readFixture<youtube_v3.Schema$Video>(
+        directory,
+        "videos"
+      );
+      return videos.filter((video) => videoIds.includes(video.id!));
+    },
+
+    async listCommentThreads(videoId, order, pageToken) {
+      const threads = await readFixture<youtube_v3.Schema$CommentThread>(
+        directory,
+        "commentThreads"
+      );
+
+      // Likes stand in for YouTube's relevance ranking
+      const sortKey = (thread: youtube_v3.Schema$CommentThread) => {
+        const comment = thread.snippet?.topLevelComment?.snippet;
+        return order === "relevance"
+          ? comment?.likeCount ?? 0
+          : new Date(comment?.publishedAt ?? 0).getTime();
+      };
+
+      return paginate(
+        threads
+          .filter((thread) => thread.snippet?.videoId === videoId)
+          .sort((a, b) => sortKey(b) - sortKey(a)),
+        100,
+        pageToken
+      );
+    },
+
+    async listCommentReplies(parentId, pageToken) {
+      const comments = await readFixture<youtube_v3.Schema$Comment>(
+        directory,
+        "comments"
+      );
+
+      return paginate(
+        comments.filter((comment) => comment.snippet?.parentId === parentId),
+        100,
+        pageToken
+      );
+    },
+  };
+}
@@ -0,0 +1,176 @@
+import { google, youtube_v3 } from "googleapis";
+import { CommentOrder } from "@/server/db/schema";
+
+// The YouTube data the scraper and channel resolver need, independent of
+// where it comes from. Resources keep the Data API's shapes so that recorded
+// API responses can back the fixture provider unchanged.
+
+export interface Page<T> {
+  items: T[];
+  nextPageToken?: string;
+}
+
+// A playlist entry; the uploads playlist lists a channel's videos newest first
+export interface PlaylistVideo {
+  videoId: string;
+  publishedAt?: string;
+}
+
+// Every channel's uploads are the playlist whose ID is the channel's with
+// UC swapped for UU
+export function uploadsPlaylistId(channelId: string): string {
+  return channelId.replace(/^UC/, "UU");
+}
+
+export interface ChannelLookupParams {
+  id?: string[];
+  forHandle?: string;
+  forUsername?: string;
+}
+
+// Videos newest first, either from one channel or matching a keyword query.
+// Relevance order instead puts the best matches for the query first.
+export interface VideoSearchParams {
+  channelId?: string;
+  query?: string;
+  publishedAfter?: Date;
+  order?: "date" | "relevance";
+  maxResults: number;
+  pageToken?: string;
+}
+
+export interface YouTubeProvider {
+  lookupChannels(params: ChannelLookupParams): Promise<youtube_v3.Schema$Channel[]>;
+  searchChannels(query: string, maxResults: number): Promise<string[]>; // Channel IDs, best match first
+  getPlaylist(playlistId: string): Promise<youtube_v3.Schema$Playlist | null>;
+  searchVideos(params: VideoSearchParams): Promise<Page<string>>; // Video IDs
+  listPlaylistVideos(playlistId: string, pageToken?: string): Promise<Page<PlaylistVideo>>;
+  getVideos(videoIds: string[]): Promise<youtube_v3.Schema$Video[]>;
+  listCommentThreads(
+    videoId: string,
+    order: CommentOrder,
+    pageToken?: string
+  ): Promise<Page<youtube_v3.Schema$CommentThread>>;
+  listCommentReplies(
+    parentId: string,
+    pageToken?: string
+  ): Promise<Page<youtube_v3.Schema$Comment>>;
+}
+
+// The live YouTube Data API. Retries are handled by youtubeRequest so that
+// every attempt gets charged.
+export function createApiProvider(apiKey: string | undefined): YouTubeProvider {
+  const youtube = google.youtube({ version: "v3", auth: apiKey, retry: false });
+
+  return {
+    async lookupChannels(params) {
+      const response = await youtube.channels.list({
+        part: ["snippet", "statistics"],
+        ...params,
+      });
+      return response.data.items ?? [];
+    },
+
+    async searchChannels(query, maxResults) {
+      const response = await youtube.search.list({
+        part: ["snippet"],
+        type: ["channel"],
+        q: query,
+        maxResults,
+      });
+      return (
+        (response.data.items
+          ?.map((item) => item.id?.channelId)
+          .filter(Boolean) as string[]) || []
+      );
+    },
+
+    async getPlaylist(playlistId) {
+      const response = await youtube.playlists.list({
+        part: ["snippet", "contentDetails"],
+        id: [playlistId],
+      });
+      return response.data.items?.[0] ?? null;
+    },
+
+    async searchVideos({
+      channelId,
+      query,
+      publishedAfter,
+      order = "date",
+      maxResults,
+      pageToken,
+    }) {
+      const response = await youtube.search.list({
+        part: ["id"],
+        channelId,
+        q: query,
+        type: ["video"],
+        order,
+        maxResults,
+        pageToken,
+        publishedAfter: publishedAfter?.toISOString(),
+      });
+      return {
+        items:
+          (response.data.items
+            ?.map((item) => item.id?.videoId)
+            .filter(Boolean) as string[]) || [],
+        nextPageToken: response.data.nextPageToken || undefined,
+      };
+    },
+
+    async listPlaylistVideos(playlistId, pageToken) {
+      const response = await youtube.playlistItems.list({
+        part: ["contentDetails"],
+        playlistId,
+        maxResults: 50,
+        pageToken,
+      });
+      return {
+        items: (response.data.items ?? [])
+          .filter((item) => item.contentDetails?.videoId)
+          .map((item) => ({
+            videoId: item.contentDetails!.videoId!,
+            publishedAt: item.contentDetails!.videoPublishedAt ?? undefined,
+          })),
+        nextPageToken: response.data.nextPageToken || undefined,
+      };
+    },
+
+    async getVideos(videoIds) {
+      const response = await youtube.videos.list({
+        part: ["snippet", "statistics", "contentDetails", "topicDetails"],
+        id: videoIds,
+      });
+      return response.data.items ?? [];
+    },
+
+    async listCommentThreads(videoId, order, pageToken) {
+      const response = await youtube.commentThreads.list({
+        part: ["snippet", "replies"],
+        videoId,
+        order,
+        maxResults: 100,
+        pageToken,
+      });
+      return {
+        items: response.data.items ?? [],
+        nextPageToken: response.data.nextPageToken || undefined,
+      };
+    },
+
+    async listCommentReplies(parentId, pageToken) {
+      const response = await youtube.comments.list({
+        part: ["snippet"],
+        parentId,
+        maxResults: 100,
+        pageToken,
+      });
+      return {
+        items: response.data.items ?? [],
+        nextPageToken: response.data.nextPageToken || undefined,
+      };
+    },
+  };
+}